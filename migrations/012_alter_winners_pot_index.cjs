@@ -0,0 +1,50 @@
+/*
+  Record one winners row per pot:
+  1. Add pot_index (0 = main pot, 1+ = side pots)
+  2. Widen the primary key to (hand_id, user_id, pot_index) so a player can win several pots in one hand
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumn('winners', {
+    pot_index: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.dropConstraint('winners', 'winners_pk');
+  pgm.addConstraint('winners', 'winners_pk', {
+    primaryKey: ['hand_id', 'user_id', 'pot_index'],
+  });
+};
+
+exports.down = (pgm) => {
+  // Collapse per-pot rows back into one row per player
+  pgm.sql(`
+    UPDATE winners w
+    SET amount_won = totals.amount_won
+    FROM (
+      SELECT hand_id, user_id, SUM(amount_won) AS amount_won, MIN(pot_index) AS pot_index
+      FROM winners
+      GROUP BY hand_id, user_id
+    ) totals
+    WHERE w.hand_id = totals.hand_id
+      AND w.user_id = totals.user_id
+      AND w.pot_index = totals.pot_index
+  `);
+  pgm.sql(`
+    DELETE FROM winners w
+    USING winners other
+    WHERE w.hand_id = other.hand_id
+      AND w.user_id = other.user_id
+      AND w.pot_index > other.pot_index
+  `);
+
+  pgm.dropConstraint('winners', 'winners_pk');
+  pgm.addConstraint('winners', 'winners_pk', {
+    primaryKey: ['hand_id', 'user_id'],
+  });
+
+  pgm.dropColumn('winners', 'pot_index');
+};
@@ -0,0 +1,48 @@
+/*
+  Per-room table structure:
+  small_blind        int [not null, default: 10]
+  big_blind          int [not null, default: 20]
+  ante               int [not null, default: 0]
+  starting_stack     int [not null, default: 1500]
+  turn_time_seconds  int [not null, default: 30]
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('game_room', {
+    small_blind: {
+      type: 'integer',
+      notNull: true,
+      default: 10,
+    },
+    big_blind: {
+      type: 'integer',
+      notNull: true,
+      default: 20,
+    },
+    ante: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    starting_stack: {
+      type: 'integer',
+      notNull: true,
+      default: 1500,
+    },
+    turn_time_seconds: {
+      type: 'integer',
+      notNull: true,
+      default: 30,
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('game_room', [
+    'small_blind',
+    'big_blind',
+    'ante',
+    'starting_stack',
+    'turn_time_seconds',
+  ]);
+};
@@ -0,0 +1,33 @@
+/*
+  Tournament mode:
+  game_room.game_mode        varchar(16) [not null, default: 'freezeout', note: 'freezeout | tournament']
+  game_room.blind_schedule   jsonb [not null, default: '[]', note: 'levels of { smallBlind, bigBlind, ante, durationHands | durationMinutes }']
+  room_players.finish_position int [note: '1 = winner, set as players are eliminated']
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('game_room', {
+    game_mode: {
+      type: 'varchar(16)',
+      notNull: true,
+      default: 'freezeout',
+    },
+    blind_schedule: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'[]'::jsonb"),
+    },
+  });
+
+  pgm.addColumns('room_players', {
+    finish_position: {
+      type: 'integer',
+      notNull: false,
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('room_players', ['finish_position']);
+  pgm.dropColumns('game_room', ['game_mode', 'blind_schedule']);
+};
@@ -0,0 +1,76 @@
+/*
+  Cash games:
+  game_room.min_buy_in   bigint [not null, default: 0, note: 'cash games only']
+  game_room.max_buy_in   bigint [not null, default: 0, note: 'cash games only']
+
+Table chip_ledger {
+  id           bigserial [pk]
+  game_id      bigint [ref: > game.id, not null]
+  user_id      bigint [ref: > users.id, not null]
+  entry_type   varchar(16) [not null, note: 'buy_in | rebuy | top_up | cash_out']
+  amount       bigint [not null]
+  stack_after  bigint [not null]
+  created_at   timestamp [not null, default: `now()`]
+}
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('game_room', {
+    min_buy_in: {
+      type: 'bigint',
+      notNull: true,
+      default: 0,
+    },
+    max_buy_in: {
+      type: 'bigint',
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.createTable('chip_ledger', {
+    id: {
+      type: 'bigserial',
+      primaryKey: true,
+    },
+    game_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'game',
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+    },
+    entry_type: {
+      type: 'varchar(16)',
+      notNull: true,
+    },
+    amount: {
+      type: 'bigint',
+      notNull: true,
+    },
+    stack_after: {
+      type: 'bigint',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func("current_timestamp"),
+    },
+  });
+
+  pgm.createIndex('chip_ledger', ['game_id', 'user_id']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('chip_ledger', {
+    ifExists: true,
+    cascade: true,
+  });
+  pgm.dropColumns('game_room', ['min_buy_in', 'max_buy_in']);
+};
@@ -0,0 +1,76 @@
+/*
+  Persistent bankroll:
+  users.bankroll   bigint [not null, default: 10000, note: 'chips available to buy into games']
+
+Table bankroll_transactions {
+  id             bigserial [pk]
+  user_id        bigint [ref: > users.id, not null]
+  game_id        bigint [ref: > game.id, note: 'null for the opening balance']
+  tx_type        varchar(16) [not null, note: 'opening | buy_in | rebuy | top_up | cash_out | payout | refund']
+  amount         bigint [not null, note: 'negative when chips leave the bankroll']
+  balance_after  bigint [not null]
+  created_at     timestamp [not null, default: `now()`]
+}
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('users', {
+    bankroll: {
+      type: 'bigint',
+      notNull: true,
+      default: 10000,
+    },
+  });
+
+  pgm.createTable('bankroll_transactions', {
+    id: {
+      type: 'bigserial',
+      primaryKey: true,
+    },
+    user_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+    },
+    game_id: {
+      type: 'bigint',
+      notNull: false,
+      references: 'game',
+      onDelete: 'SET NULL',
+    },
+    tx_type: {
+      type: 'varchar(16)',
+      notNull: true,
+    },
+    amount: {
+      type: 'bigint',
+      notNull: true,
+    },
+    balance_after: {
+      type: 'bigint',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func("current_timestamp"),
+    },
+  });
+
+  pgm.createIndex('bankroll_transactions', ['user_id', 'created_at']);
+
+  // Existing players start their history from the opening balance
+  pgm.sql(`
+    INSERT INTO bankroll_transactions (user_id, tx_type, amount, balance_after)
+    SELECT id, 'opening', bankroll, bankroll FROM users
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('bankroll_transactions', {
+    ifExists: true,
+    cascade: true,
+  });
+  pgm.dropColumns('users', ['bankroll']);
+};
@@ -0,0 +1,70 @@
+/*
+Table game_results {
+  game_id          bigint [ref: > game.id, not null]
+  user_id          bigint [ref: > users.id, not null]
+  final_stack      bigint [not null]
+  finish_position  int [not null, note: '1 = winner']
+  hands_played     int [not null, default: 0]
+  created_at       timestamp [not null, default: `now()`]
+
+  (game_id, user_id) [pk]
+}
+
+  game.end_time loses its default so it stays null until the game is over
+*/
+
+exports.up = (pgm) => {
+  pgm.createTable('game_results', {
+    game_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'game',
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+    },
+    final_stack: {
+      type: 'bigint',
+      notNull: true,
+    },
+    finish_position: {
+      type: 'integer',
+      notNull: true,
+    },
+    hands_played: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func("current_timestamp"),
+    },
+  });
+
+  pgm.addConstraint('game_results', 'game_results_pk', {
+    primaryKey: ['game_id', 'user_id'],
+  });
+
+  pgm.createIndex('game_results', 'user_id');
+
+  pgm.alterColumn('game', 'end_time', {
+    default: null,
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.alterColumn('game', 'end_time', {
+    default: pgm.func("current_timestamp"),
+  });
+
+  pgm.dropTable('game_results', {
+    ifExists: true,
+    cascade: true,
+  });
+};
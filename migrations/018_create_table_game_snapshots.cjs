@@ -0,0 +1,46 @@
+/*
+Table game_snapshots {
+  game_id     bigint [pk, ref: - game.id]
+  room_id     bigint [ref: > game_room.id, not null]
+  version     int [not null, note: 'increases with every save, older writes are ignored']
+  state       jsonb [not null, note: 'serialized PokerGameEngine state']
+  updated_at  timestamp [not null, default: `now()`]
+}
+*/
+
+exports.up = (pgm) => {
+  pgm.createTable('game_snapshots', {
+    game_id: {
+      type: 'bigint',
+      primaryKey: true,
+      references: 'game',
+      onDelete: 'CASCADE',
+    },
+    room_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'game_room',
+      onDelete: 'CASCADE',
+    },
+    version: {
+      type: 'integer',
+      notNull: true,
+    },
+    state: {
+      type: 'jsonb',
+      notNull: true,
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func("current_timestamp"),
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('game_snapshots', {
+    ifExists: true,
+    cascade: true,
+  });
+};
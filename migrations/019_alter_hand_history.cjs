@@ -0,0 +1,36 @@
+/*
+  Hand history replay:
+  ENUM action_type + ('ante', 'small_blind', 'big_blind')   forced bets are recorded as actions
+  hands.board_cards     varchar(10) -> varchar(32)           "Ah Kd Qs Jc Th" didn't fit
+  hand_cards.seat            int [note: 'room_players.position when the hand was dealt']
+  hand_cards.starting_stack  bigint [note: 'stack before antes and blinds']
+*/
+
+exports.up = (pgm) => {
+  pgm.addTypeValue('action_type', 'ante', { ifNotExists: true });
+  pgm.addTypeValue('action_type', 'small_blind', { ifNotExists: true });
+  pgm.addTypeValue('action_type', 'big_blind', { ifNotExists: true });
+
+  pgm.alterColumn('hands', 'board_cards', {
+    type: 'varchar(32)',
+  });
+
+  pgm.addColumns('hand_cards', {
+    seat: {
+      type: 'integer',
+      notNull: false,
+    },
+    starting_stack: {
+      type: 'bigint',
+      notNull: false,
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('hand_cards', ['seat', 'starting_stack']);
+  pgm.alterColumn('hands', 'board_cards', {
+    type: 'varchar(10)',
+  });
+  // Postgres can't drop enum values - the forced bet action types stay
+};
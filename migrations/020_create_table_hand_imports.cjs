@@ -0,0 +1,82 @@
+/*
+Table hand_imports {
+  id              bigint [pk, increment]
+  user_id         bigint [ref: > users.id, not null, note: 'who uploaded the file']
+  room_id         bigint [ref: > game_room.id, not null, note: 'room created to hold the imported hands']
+  source_format   varchar(16) [not null, note: 'pokerstars | json']
+  hands_imported  int [not null, default: 0]
+  hands_rejected  int [not null, default: 0]
+  created_at      timestamp [not null, default: `now()`]
+}
+
+  users.is_imported     boolean [not null, default: false, note: 'player only known from an imported hand history, cannot log in']
+  hand_cards.card_1/2   nullable - opponents' hole cards are unknown in most imported hands
+  game_room.status      + 'imported'
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('users', {
+    is_imported: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+  });
+
+  pgm.alterColumn('hand_cards', 'card_1', { notNull: false });
+  pgm.alterColumn('hand_cards', 'card_2', { notNull: false });
+
+  pgm.createTable('hand_imports', {
+    id: {
+      type: 'bigserial',
+      primaryKey: true,
+      notNull: true,
+    },
+    user_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+    },
+    room_id: {
+      type: 'bigint',
+      notNull: true,
+      references: 'game_room',
+      onDelete: 'CASCADE',
+    },
+    source_format: {
+      type: 'varchar(16)',
+      notNull: true,
+    },
+    hands_imported: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    hands_rejected: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func("current_timestamp"),
+    },
+  });
+
+  pgm.createIndex('hand_imports', 'user_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('hand_imports', {
+    ifExists: true,
+    cascade: true,
+  });
+
+  pgm.sql(`DELETE FROM hand_cards WHERE card_1 IS NULL OR card_2 IS NULL`);
+  pgm.alterColumn('hand_cards', 'card_1', { notNull: true });
+  pgm.alterColumn('hand_cards', 'card_2', { notNull: true });
+
+  pgm.dropColumns('users', ['is_imported']);
+};
@@ -0,0 +1,18 @@
+/*
+  Betting structures:
+  game_room.betting_structure   varchar(16) [not null, default: 'no_limit', note: 'no_limit | pot_limit | fixed_limit']
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('game_room', {
+    betting_structure: {
+      type: 'varchar(16)',
+      notNull: true,
+      default: 'no_limit',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('game_room', ['betting_structure']);
+};
@@ -0,0 +1,12 @@
+/*
+  Missed blinds:
+  ENUM action_type + ('dead_blind')   small blind a returning player owes, dead money that doesn't count towards their bet
+*/
+
+exports.up = (pgm) => {
+  pgm.addTypeValue('action_type', 'dead_blind', { ifNotExists: true });
+};
+
+exports.down = () => {
+  // Postgres can't drop enum values - dead_blind stays
+};
@@ -0,0 +1,18 @@
+/*
+  Big blind ante:
+  game_room.ante_type   varchar(16) [not null, default: 'per_player', note: 'per_player | big_blind']
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('game_room', {
+    ante_type: {
+      type: 'varchar(16)',
+      notNull: true,
+      default: 'per_player',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('game_room', ['ante_type']);
+};
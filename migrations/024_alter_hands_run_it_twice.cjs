@@ -0,0 +1,59 @@
+/*
+  Run it twice:
+  hands.board_cards_2   varchar(32) [note: 'second board when the all-in players ran it twice, null otherwise']
+  winners.run           smallint [not null, default: 1, note: '1 = first board, 2 = second board']
+  winners primary key   (hand_id, user_id, pot_index) -> (hand_id, user_id, pot_index, run)
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('hands', {
+    board_cards_2: {
+      type: 'varchar(32)',
+    },
+  });
+
+  pgm.addColumns('winners', {
+    run: {
+      type: 'smallint',
+      notNull: true,
+      default: 1,
+    },
+  });
+
+  pgm.dropConstraint('winners', 'winners_pk');
+  pgm.addConstraint('winners', 'winners_pk', {
+    primaryKey: ['hand_id', 'user_id', 'pot_index', 'run'],
+  });
+};
+
+exports.down = (pgm) => {
+  // Fold second-board winnings into the first-board row, or make it the first-board row
+  pgm.sql(`
+    UPDATE winners w
+    SET amount_won = w.amount_won + second.amount_won
+    FROM winners second
+    WHERE second.run = 2
+      AND w.run = 1
+      AND w.hand_id = second.hand_id
+      AND w.user_id = second.user_id
+      AND w.pot_index = second.pot_index
+  `);
+  pgm.sql(`
+    DELETE FROM winners w
+    USING winners first
+    WHERE w.run = 2
+      AND first.run = 1
+      AND w.hand_id = first.hand_id
+      AND w.user_id = first.user_id
+      AND w.pot_index = first.pot_index
+  `);
+  pgm.sql(`UPDATE winners SET run = 1 WHERE run = 2`);
+
+  pgm.dropConstraint('winners', 'winners_pk');
+  pgm.addConstraint('winners', 'winners_pk', {
+    primaryKey: ['hand_id', 'user_id', 'pot_index'],
+  });
+
+  pgm.dropColumns('winners', ['run']);
+  pgm.dropColumns('hands', ['board_cards_2']);
+};
@@ -0,0 +1,16 @@
+/*
+  Showdown mucks:
+  hand_cards.is_shown   boolean [note: 'cards turned face up at showdown or shown by choice, null for hands recorded before mucking']
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('hand_cards', {
+    is_shown: {
+      type: 'boolean',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('hand_cards', ['is_shown']);
+};
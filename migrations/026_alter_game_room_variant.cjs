@@ -0,0 +1,29 @@
+/*
+  Omaha:
+  game_room.variant     varchar(16) [not null, default: 'holdem', note: 'holdem | omaha']
+  hand_cards.card_3/4   varchar(3) - Omaha's third and fourth hole cards, null in Hold'em
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('game_room', {
+    variant: {
+      type: 'varchar(16)',
+      notNull: true,
+      default: 'holdem',
+    },
+  });
+
+  pgm.addColumns('hand_cards', {
+    card_3: {
+      type: 'varchar(3)',
+    },
+    card_4: {
+      type: 'varchar(3)',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('hand_cards', ['card_3', 'card_4']);
+  pgm.dropColumns('game_room', ['variant']);
+};
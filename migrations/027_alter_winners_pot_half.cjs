@@ -0,0 +1,53 @@
+/*
+  Omaha Hi/Lo:
+  winners.pot_half      varchar(2) [not null, default: 'hi', note: 'hi | lo, the half of a split pot won']
+  winners primary key   (hand_id, user_id, pot_index, run) -> (hand_id, user_id, pot_index, run, pot_half)
+*/
+
+exports.up = (pgm) => {
+  pgm.addColumns('winners', {
+    pot_half: {
+      type: 'varchar(2)',
+      notNull: true,
+      default: 'hi',
+    },
+  });
+
+  pgm.dropConstraint('winners', 'winners_pk');
+  pgm.addConstraint('winners', 'winners_pk', {
+    primaryKey: ['hand_id', 'user_id', 'pot_index', 'run', 'pot_half'],
+  });
+};
+
+exports.down = (pgm) => {
+  // Fold low-half winnings into the high-half row, or make it the high-half row
+  pgm.sql(`
+    UPDATE winners w
+    SET amount_won = w.amount_won + low.amount_won
+    FROM winners low
+    WHERE low.pot_half = 'lo'
+      AND w.pot_half = 'hi'
+      AND w.hand_id = low.hand_id
+      AND w.user_id = low.user_id
+      AND w.pot_index = low.pot_index
+      AND w.run = low.run
+  `);
+  pgm.sql(`
+    DELETE FROM winners w
+    USING winners high
+    WHERE w.pot_half = 'lo'
+      AND high.pot_half = 'hi'
+      AND w.hand_id = high.hand_id
+      AND w.user_id = high.user_id
+      AND w.pot_index = high.pot_index
+      AND w.run = high.run
+  `);
+  pgm.sql(`UPDATE winners SET pot_half = 'hi' WHERE pot_half = 'lo'`);
+
+  pgm.dropConstraint('winners', 'winners_pk');
+  pgm.addConstraint('winners', 'winners_pk', {
+    primaryKey: ['hand_id', 'user_id', 'pot_index', 'run'],
+  });
+
+  pgm.dropColumns('winners', ['pot_half']);
+};
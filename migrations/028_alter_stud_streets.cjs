@@ -0,0 +1,32 @@
+/*
+  Seven-Card Stud and Razz:
+  ENUM street_type + ('third_street', 'fourth_street', 'fifth_street', 'sixth_street', 'seventh_street')
+  ENUM action_type + ('bring_in')     forced bet of the lowest upcard (highest in Razz) on third street
+  hand_cards.card_5/6/7   varchar(3) - a stud hand's later cards, in the order dealt: cards 3 to 6 face up
+*/
+
+exports.up = (pgm) => {
+  pgm.addTypeValue('street_type', 'third_street', { ifNotExists: true });
+  pgm.addTypeValue('street_type', 'fourth_street', { ifNotExists: true });
+  pgm.addTypeValue('street_type', 'fifth_street', { ifNotExists: true });
+  pgm.addTypeValue('street_type', 'sixth_street', { ifNotExists: true });
+  pgm.addTypeValue('street_type', 'seventh_street', { ifNotExists: true });
+  pgm.addTypeValue('action_type', 'bring_in', { ifNotExists: true });
+
+  pgm.addColumns('hand_cards', {
+    card_5: {
+      type: 'varchar(3)',
+    },
+    card_6: {
+      type: 'varchar(3)',
+    },
+    card_7: {
+      type: 'varchar(3)',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('hand_cards', ['card_5', 'card_6', 'card_7']);
+  // Postgres can't drop enum values - the stud streets and bring_in stay
+};
@@ -0,0 +1,28 @@
+/*
+  Five-Card Draw:
+  ENUM street_type + ('predraw', 'draw')   betting before the draw, then the draw and the betting after it
+  ENUM action_type + ('draw')              a player swapping cards, amount 0
+  actions.discarded_cards   varchar(14) - draw actions only: the cards thrown away, space separated, empty standing pat
+  actions.drawn_cards       varchar(14) - draw actions only: the cards dealt in their place
+  hand_cards.card_1 to card_5 hold the hand a draw player ended with
+*/
+
+exports.up = (pgm) => {
+  pgm.addTypeValue('street_type', 'predraw', { ifNotExists: true });
+  pgm.addTypeValue('street_type', 'draw', { ifNotExists: true });
+  pgm.addTypeValue('action_type', 'draw', { ifNotExists: true });
+
+  pgm.addColumns('actions', {
+    discarded_cards: {
+      type: 'varchar(14)',
+    },
+    drawn_cards: {
+      type: 'varchar(14)',
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('actions', ['discarded_cards', 'drawn_cards']);
+  // Postgres can't drop enum values - the draw streets and action stay
+};
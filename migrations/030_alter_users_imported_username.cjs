@@ -0,0 +1,33 @@
+/*
+  Imported players get their own account per import, even when the name in the file is a registered username:
+  users.username   unique -> unique among registered users only (NOT is_imported)
+*/
+
+exports.up = (pgm) => {
+  pgm.dropConstraint('users', 'users_username_key');
+  pgm.createIndex('users', 'username', {
+    name: 'users_username_registered_key',
+    unique: true,
+    where: 'NOT is_imported',
+  });
+};
+
+exports.down = (pgm) => {
+  // Imported players sharing a name with another account are renamed to their id
+  pgm.sql(`
+    UPDATE users u
+    SET username = 'imported-' || u.id
+    WHERE u.is_imported
+      AND EXISTS (
+        SELECT 1 FROM users other
+        WHERE other.username = u.username
+          AND other.id <> u.id
+          AND (NOT other.is_imported OR other.id < u.id)
+      )
+  `);
+
+  pgm.dropIndex('users', 'username', { name: 'users_username_registered_key' });
+  pgm.addConstraint('users', 'users_username_key', {
+    unique: ['username'],
+  });
+};
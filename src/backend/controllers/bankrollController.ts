@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { BankrollManager } from '../poker/BankrollManager.js';
+
+// Get the logged-in player's bankroll and transaction history
+export async function getBankroll(req: Request, res: Response) {
+    try {
+        const userId = req.session.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        const limit = Math.min(parseInt(String(req.query.limit ?? '50')) || 50, 200);
+        const offset = Math.max(parseInt(String(req.query.offset ?? '0')) || 0, 0);
+
+        const [balance, transactions] = await Promise.all([
+            BankrollManager.getBalance(userId),
+            BankrollManager.getTransactions(userId, limit, offset),
+        ]);
+
+        // Net result of every game played, without the opening balance
+        const netWinnings = balance - BankrollManager.STARTING_BANKROLL;
+
+        return res.json({ balance, netWinnings, transactions, limit, offset });
+    } catch (error) {
+        console.error('[getBankroll] error:', error);
+        return res.status(500).json({ error: 'Failed to fetch bankroll' });
+    }
+}
@@ -1,7 +1,129 @@
 import { Request, Response } from 'express';
 import pool from '../database.js';
-import { PokerGameEngine } from '../poker/PokerGameEngine.js';
-import { getGame, registerGame } from './pokerGameController.js';
+import { BankrollManager } from '../poker/BankrollManager.js';
+import { BlindSchedule } from '../poker/BlindSchedule.js';
+import { DEFAULT_TABLE_CONFIG, PokerGameEngine } from '../poker/PokerGameEngine.js';
+import { BettingStructure } from '../poker/BettingStructure.js';
+import { GameVariant } from '../poker/GameVariant.js';
+import { AnteType, BettingStructureType, GameMode, GameVariantType, TableConfig } from '../poker/types.js';
+import { getGame, registerGame, unregisterGame } from './pokerGameController.js';
+
+// Parse the optional table structure fields of the create form, falling back to the defaults
+function parseTableConfig(body: any): { config?: TableConfig; error?: string } {
+    const readInt = (value: any, fallback: number): number =>
+        value === undefined || value === null || value === '' ? fallback : Number(value);
+
+    const config: TableConfig = {
+        smallBlind: readInt(body.smallBlind, DEFAULT_TABLE_CONFIG.smallBlind),
+        bigBlind: readInt(body.bigBlind, DEFAULT_TABLE_CONFIG.bigBlind),
+        ante: readInt(body.ante, DEFAULT_TABLE_CONFIG.ante),
+        anteType: (body.anteType || DEFAULT_TABLE_CONFIG.anteType) as AnteType,
+        startingStack: readInt(body.startingStack, DEFAULT_TABLE_CONFIG.startingStack),
+        turnTimeSeconds: readInt(body.turnTimeSeconds, DEFAULT_TABLE_CONFIG.turnTimeSeconds),
+        gameMode: (body.gameMode || DEFAULT_TABLE_CONFIG.gameMode) as GameMode,
+        bettingStructure: (body.bettingStructure || DEFAULT_TABLE_CONFIG.bettingStructure) as BettingStructureType,
+        variant: (body.variant || DEFAULT_TABLE_CONFIG.variant) as GameVariantType,
+        blindSchedule: [],
+        minBuyIn: 0,
+        maxBuyIn: 0,
+    };
+
+    const amounts = [config.smallBlind, config.bigBlind, config.ante, config.startingStack, config.turnTimeSeconds];
+    if (!amounts.every(value => Number.isInteger(value))) {
+        return { error: 'Table settings must be whole numbers' };
+    }
+
+    if (!['freezeout', 'tournament', 'cash'].includes(config.gameMode)) {
+        return { error: 'Invalid game mode' };
+    }
+
+    if (!BettingStructure.TYPES.includes(config.bettingStructure)) {
+        return { error: 'Invalid betting structure' };
+    }
+
+    if (!GameVariant.TYPES.includes(config.variant)) {
+        return { error: 'Invalid game variant' };
+    }
+
+    if (config.smallBlind < 1 || config.bigBlind < config.smallBlind) {
+        return { error: 'Big blind must be at least the small blind' };
+    }
+
+    if (config.ante < 0 || config.ante > config.bigBlind) {
+        return { error: 'Ante must be between 0 and the big blind' };
+    }
+
+    if (!['per_player', 'big_blind', 'ante_only'].includes(config.anteType)) {
+        return { error: 'Invalid ante type' };
+    }
+
+    if (config.anteType === 'ante_only' && config.ante < 1) {
+        return { error: 'Ante-only tables need an ante' };
+    }
+
+    if (config.gameMode === 'cash') {
+        // The starting stack is the opening buy-in and has to sit inside the buy-in range
+        config.minBuyIn = readInt(body.minBuyIn, config.bigBlind * 20);
+        config.maxBuyIn = readInt(body.maxBuyIn, config.bigBlind * 100);
+
+        if (!Number.isInteger(config.minBuyIn) || !Number.isInteger(config.maxBuyIn)) {
+            return { error: 'Buy-in limits must be whole numbers' };
+        }
+
+        if (config.minBuyIn < config.bigBlind * 10 || config.maxBuyIn < config.minBuyIn) {
+            return { error: 'Buy-in range must start at 10 big blinds or more' };
+        }
+
+        if (config.startingStack < config.minBuyIn || config.startingStack > config.maxBuyIn) {
+            return { error: 'Starting stack must be within the buy-in range' };
+        }
+    } else if (config.startingStack < config.bigBlind * 10) {
+        return { error: 'Starting stack must be at least 10 big blinds' };
+    }
+
+    if (config.turnTimeSeconds < 10 || config.turnTimeSeconds > 120) {
+        return { error: 'Turn time must be between 10 and 120 seconds' };
+    }
+
+    if (config.gameMode === 'tournament') {
+        if (body.blindSchedule !== undefined) {
+            // API clients may send their own levels
+            const scheduleError = BlindSchedule.validate(body.blindSchedule);
+            if (scheduleError) {
+                return { error: scheduleError };
+            }
+            config.blindSchedule = body.blindSchedule;
+        } else {
+            const levelDuration = readInt(body.levelDuration, 10);
+            const levelUnit = body.levelUnit === 'minutes' ? 'minutes' : 'hands';
+
+            if (!Number.isInteger(levelDuration) || levelDuration < 1) {
+                return { error: 'Level duration must be a positive whole number' };
+            }
+            config.blindSchedule = BlindSchedule.build(config, levelDuration, levelUnit);
+        }
+    }
+
+    return { config };
+}
+
+// Build the engine table config from a game_room row
+function tableConfigFromRoom(room: any): TableConfig {
+    return {
+        smallBlind: Number(room.small_blind),
+        bigBlind: Number(room.big_blind),
+        ante: Number(room.ante),
+        anteType: room.ante_type,
+        startingStack: Number(room.starting_stack),
+        turnTimeSeconds: Number(room.turn_time_seconds),
+        gameMode: room.game_mode,
+        bettingStructure: room.betting_structure,
+        variant: room.variant,
+        blindSchedule: room.blind_schedule || [],
+        minBuyIn: Number(room.min_buy_in),
+        maxBuyIn: Number(room.max_buy_in),
+    };
+}
 
 // Create a new game room
 export async function createGame(req: Request, res: Response) {
@@ -22,12 +144,44 @@ export async function createGame(req: Request, res: Response) {
             return res.status(400).json({ error: 'Invalid max players value' });
         }
 
+        const { config, error } = parseTableConfig(req.body);
+        if (!config) {
+            return res.status(400).json({ error });
+        }
+
+        // Stud deals up to seven cards each and draw needs cards left over to draw from, so they seat fewer
+        const variant = GameVariant.create(config.variant);
+        if (maxPlayersNum > variant.maxPlayers) {
+            return res.status(400).json({ error: `${variant.name} tables seat at most ${variant.maxPlayers} players` });
+        }
+
         // Create game room
         const roomResult = await pool.query(
-            `INSERT INTO game_room (owner_id, name, max_players, status)
-       VALUES ($1, $2, $3, 'waiting')
-       RETURNING id, owner_id, name, max_players, status, created_at`,
-            [userId, gameName, maxPlayersNum]
+            `INSERT INTO game_room (
+          owner_id, name, max_players, status,
+          small_blind, big_blind, ante, starting_stack, turn_time_seconds,
+          game_mode, blind_schedule, min_buy_in, max_buy_in, betting_structure, ante_type, variant
+       )
+       VALUES ($1, $2, $3, 'waiting', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       RETURNING id, owner_id, name, max_players, status, created_at,
+          small_blind, big_blind, ante, starting_stack, turn_time_seconds, game_mode, betting_structure, ante_type, variant`,
+            [
+                userId,
+                gameName,
+                maxPlayersNum,
+                config.smallBlind,
+                config.bigBlind,
+                config.ante,
+                config.startingStack,
+                config.turnTimeSeconds,
+                config.gameMode,
+                JSON.stringify(config.blindSchedule),
+                config.minBuyIn,
+                config.maxBuyIn,
+                config.bettingStructure,
+                config.anteType,
+                config.variant,
+            ]
         );
 
         const room = roomResult.rows[0];
@@ -48,6 +202,15 @@ export async function createGame(req: Request, res: Response) {
                 max_players: room.max_players,
                 player_count: 1,
                 status: room.status,
+                small_blind: room.small_blind,
+                big_blind: room.big_blind,
+                ante: room.ante,
+                ante_type: room.ante_type,
+                starting_stack: room.starting_stack,
+                turn_time_seconds: room.turn_time_seconds,
+                game_mode: room.game_mode,
+                betting_structure: room.betting_structure,
+                variant: room.variant,
             });
         }
 
@@ -68,6 +231,15 @@ export async function getGames(_req: Request, res: Response) {
         gr.max_players,
         gr.status,
         gr.created_at,
+        gr.small_blind,
+        gr.big_blind,
+        gr.ante,
+        gr.ante_type,
+        gr.starting_stack,
+        gr.turn_time_seconds,
+        gr.game_mode,
+        gr.betting_structure,
+        gr.variant,
         COUNT(rp.user_id) as player_count
        FROM game_room gr
        LEFT JOIN room_players rp ON gr.id = rp.room_id
@@ -105,6 +277,18 @@ export async function getGameDetails(req: Request, res: Response) {
         gr.max_players,
         gr.status,
         gr.owner_id,
+        gr.small_blind,
+        gr.big_blind,
+        gr.ante,
+        gr.ante_type,
+        gr.starting_stack,
+        gr.turn_time_seconds,
+        gr.game_mode,
+        gr.betting_structure,
+        gr.variant,
+        gr.blind_schedule,
+        gr.min_buy_in,
+        gr.max_buy_in,
         u.username as owner_name
        FROM game_room gr
        JOIN users u ON gr.owner_id = u.id
@@ -259,7 +443,9 @@ export async function startGame(req: Request, res: Response) {
 
         // Check if user is the owner
         const roomResult = await pool.query(
-            `SELECT owner_id, status FROM game_room WHERE id = $1`,
+            `SELECT owner_id, status, small_blind, big_blind, ante, starting_stack, turn_time_seconds,
+                game_mode, blind_schedule, min_buy_in, max_buy_in, betting_structure, ante_type, variant
+            FROM game_room WHERE id = $1`,
             [gameId]
         );
 
@@ -289,6 +475,20 @@ export async function startGame(req: Request, res: Response) {
             return res.status(400).json({ error: 'Need at least 2 players to start' });
         }
 
+        // Every player buys in for the starting stack from their bankroll
+        const shortResult = await pool.query(
+            `SELECT u.username
+            FROM room_players rp
+            JOIN users u ON rp.user_id = u.id
+            WHERE rp.room_id = $1 AND u.bankroll < $2`,
+            [gameId, room.starting_stack]
+        );
+
+        if ((shortResult.rowCount ?? 0) > 0) {
+            const names = shortResult.rows.map((row: any) => row.username).join(', ');
+            return res.status(400).json({ error: `Not enough chips in bankroll to buy in: ${names}` });
+        }
+
         // Update game status
         await pool.query(
             `UPDATE game_room SET status = 'in_progress' WHERE id = $1`,
@@ -334,22 +534,43 @@ export async function startGame(req: Request, res: Response) {
             return res.status(500).json({ error: 'Socket.io not available' });
         }
 
-        // Instantiate PokerGameEngine with room players (Requirement 7.1)
-        const pokerEngine = new PokerGameEngine(gameId, dbGameId, players, io);
+        // Debit the buy-ins and start the first hand, handing back every buy-in taken if any step fails
+        const buyIn = Number(room.starting_stack);
+        const debited: number[] = [];
+        try {
+            for (const player of players) {
+                await BankrollManager.debit(player.userId, buyIn, dbGameId, 'buy_in');
+                debited.push(player.userId);
+            }
 
-        // Store engine instance in memory (Map<roomId, PokerGameEngine>)
-        registerGame(gameId, pokerEngine);
+            // Instantiate PokerGameEngine with room players and the room's table structure (Requirement 7.1)
+            const pokerEngine = new PokerGameEngine(gameId, dbGameId, players, io, tableConfigFromRoom(room));
 
-        // Broadcast game started - clients will register handlers on this event
-        io.to(`room:${gameId}`).emit('game:started', {
-            gameId,
-        });
+            // Store engine instance in memory (Map<roomId, PokerGameEngine>)
+            registerGame(gameId, pokerEngine);
 
-        // Small delay to allow clients to register handlers before starting the hand
-        await new Promise(resolve => setTimeout(resolve, 500));
+            // Cash games track every chip brought to the table
+            if (room.game_mode === 'cash') {
+                await pokerEngine.recordBuyIns();
+            }
 
-        // Call engine.startHand() to begin first hand
-        await pokerEngine.startHand();
+            // Broadcast game started - clients will register handlers on this event
+            io.to(`room:${gameId}`).emit('game:started', {
+                gameId,
+            });
+
+            // Small delay to allow clients to register handlers before starting the hand
+            await new Promise(resolve => setTimeout(resolve, 500));
+
+            // Call engine.startHand() to begin first hand
+            await pokerEngine.startHand();
+        } catch (error) {
+            unregisterGame(gameId);
+            for (const debitedUserId of debited) {
+                await BankrollManager.credit(debitedUserId, buyIn, dbGameId, 'refund');
+            }
+            throw error;
+        }
 
         return res.json({ success: true });
     } catch (error) {
@@ -394,6 +615,17 @@ export async function leaveGame(req: Request, res: Response) {
             return res.status(400).json({ error: 'You are not in this game' });
         }
 
+        // Leaving a running cash game takes the stack with you
+        const pokerEngine = getGame(gameId);
+        if (pokerEngine && pokerEngine.getTableConfig().gameMode === 'cash') {
+            try {
+                await pokerEngine.cashOut(userId);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Failed to cash out';
+                return res.status(400).json({ error: message });
+            }
+        }
+
         // Remove player from game
         await pool.query(
             `DELETE FROM room_players WHERE user_id = $1 AND room_id = $2`,
@@ -498,16 +730,17 @@ export async function endGame(req: Request, res: Response) {
         let leaderboard: any[] = [];
 
         if (pokerEngine) {
-            // Get the leaderboard BEFORE ending the game
+            // End the game through the engine first - cash games settle any abandoned hand there
+            await pokerEngine.endGame();
+
             const players = pokerEngine.getPlayers();
             leaderboard = players.map((p: any) => ({
                 userId: p.userId,
                 username: p.username,
-                stack: p.stack
+                stack: p.stack,
+                finishPosition: p.finishPosition
             }));
 
-            // End the game through the engine
-            await pokerEngine.endGame();
             // Don't unregister yet - let getGameResults access it
             // unregisterGame(gameId);
         }
@@ -571,35 +804,37 @@ export async function getGameResults(req: Request, res: Response) {
             });
         }
 
-        // Get players with their final stacks (leaderboard)
-        // First try to get from the poker engine if still active
-        const pokerEngine = getGame(gameId);
-        let leaderboard: any[] = [];
+        // Final standings of the room's latest game, written when it ended
+        const resultsResult = await pool.query(
+            `SELECT
+                r.user_id,
+                u.username,
+                r.final_stack as stack,
+                r.finish_position as "finishPosition",
+                r.hands_played as "handsPlayed",
+                g.end_time as "endTime"
+            FROM game_results r
+            JOIN game g ON r.game_id = g.id
+            JOIN users u ON r.user_id = u.id
+            WHERE g.id = (SELECT MAX(id) FROM game WHERE room_id = $1)
+            ORDER BY r.finish_position`,
+            [gameId]
+        );
 
-        if (pokerEngine) {
-            // Get current stacks from the engine
-            const players = pokerEngine.getPlayers();
-            leaderboard = players
-                .map((p: any) => ({
-                    user_id: p.userId,
-                    username: p.username,
-                    stack: p.stack
-                }))
-                .sort((a: any, b: any) => b.stack - a.stack);
-        } else {
-            // Fallback: get players from room_players table with default stack
-            const playersResult = await pool.query(
-                `SELECT 
-                    rp.user_id,
-                    u.username,
-                    1500 as stack
-                FROM room_players rp
-                JOIN users u ON rp.user_id = u.id
-                WHERE rp.room_id = $1
-                ORDER BY rp.position`,
-                [gameId]
-            );
-            leaderboard = playersResult.rows;
+        let leaderboard: any[] = resultsResult.rows.map((row: any) => ({
+            ...row,
+            stack: Number(row.stack)
+        }));
+
+        // A game still being played has no stored results yet - show its live standings
+        const pokerEngine = getGame(gameId);
+        if (leaderboard.length === 0 && pokerEngine) {
+            leaderboard = pokerEngine.getPlayers().map((p: any) => ({
+                user_id: p.userId,
+                username: p.username,
+                stack: p.stack,
+                finishPosition: p.finishPosition
+            }));
         }
 
         res.render('pages/results', {
@@ -619,3 +854,69 @@ export async function getGameResults(req: Request, res: Response) {
         });
     }
 }
+
+// Get the chip ledger of a cash game with each player's net result
+export async function getChipLedger(req: Request, res: Response) {
+    try {
+        const gameId = parseInt(req.params.id);
+
+        if (isNaN(gameId)) {
+            return res.status(400).json({ error: 'Invalid game ID' });
+        }
+
+        const entriesResult = await pool.query(
+            `SELECT
+                cl.id,
+                cl.game_id,
+                cl.user_id,
+                u.username,
+                cl.entry_type,
+                cl.amount,
+                cl.stack_after,
+                cl.created_at
+            FROM chip_ledger cl
+            JOIN game g ON cl.game_id = g.id
+            JOIN users u ON cl.user_id = u.id
+            WHERE g.room_id = $1
+            ORDER BY cl.created_at, cl.id`,
+            [gameId]
+        );
+
+        // Players still seated haven't cashed out yet, so their stack counts towards the result;
+        // once the game has ended every stack is already in the ledger as a cash-out
+        const pokerEngine = getGame(gameId);
+        const seatedStacks = new Map<number, number>();
+        if (pokerEngine && !pokerEngine.isFinished()) {
+            for (const player of pokerEngine.getPlayers()) {
+                seatedStacks.set(player.userId, player.stack);
+            }
+        }
+
+        const totals = new Map<number, { userId: number; username: string; boughtIn: number; cashedOut: number }>();
+        for (const entry of entriesResult.rows) {
+            const entryUserId = Number(entry.user_id);
+            const total = totals.get(entryUserId) ?? { userId: entryUserId, username: entry.username, boughtIn: 0, cashedOut: 0 };
+
+            if (entry.entry_type === 'cash_out') {
+                total.cashedOut += Number(entry.amount);
+            } else {
+                total.boughtIn += Number(entry.amount);
+            }
+            totals.set(entryUserId, total);
+        }
+
+        const players = Array.from(totals.values()).map(total => {
+            const currentStack = seatedStacks.get(total.userId) ?? 0;
+            return {
+                ...total,
+                currentStack,
+                net: total.cashedOut + currentStack - total.boughtIn
+            };
+        });
+
+        return res.json({ entries: entriesResult.rows, players });
+    } catch (error) {
+        console.error('[getChipLedger] error:', error);
+        return res.status(500).json({ error: 'Failed to fetch chip ledger' });
+    }
+}
@@ -0,0 +1,260 @@
+import { Request, Response } from 'express';
+import pool from '../database.js';
+import { HandHistory, HandRecord } from '../poker/HandHistory.js';
+import { ExportTable, HandHistoryExporter } from '../poker/HandHistoryExporter.js';
+import { HandHistoryImporter } from '../poker/HandHistoryImporter.js';
+import { HandHistoryFormat, HandHistoryParser } from '../poker/HandHistoryParser.js';
+
+// Load the hands and the table details of the rooms they were played in
+async function loadHandsForExport(handIds: number[]): Promise<Array<{ hand: HandRecord; table: ExportTable }>> {
+    const tables = new Map<number, ExportTable>();
+    const hands: Array<{ hand: HandRecord; table: ExportTable }> = [];
+
+    for (const handId of handIds) {
+        const hand = await HandHistory.loadHand(handId);
+        if (!hand) {
+            continue;
+        }
+
+        if (!tables.has(hand.roomId)) {
+            const roomResult = await pool.query(
+                `SELECT name, max_players, small_blind, big_blind FROM game_room WHERE id = $1`,
+                [hand.roomId]
+            );
+            const room = roomResult.rows[0];
+            tables.set(hand.roomId, {
+                name: room.name,
+                maxPlayers: Number(room.max_players),
+                smallBlind: Number(room.small_blind),
+                bigBlind: Number(room.big_blind),
+            });
+        }
+
+        hands.push({ hand, table: tables.get(hand.roomId)! });
+    }
+
+    return hands;
+}
+
+// Parse a YYYY-MM-DD query parameter
+function parseDate(value: unknown): Date | null {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return null;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// Hand history page of a game room
+export async function getHandsPage(req: Request, res: Response) {
+    try {
+        const gameId = parseInt(req.params.id);
+
+        if (isNaN(gameId)) {
+            return res.status(400).render('pages/error', {
+                statusCode: 400,
+                title: 'Invalid Game',
+                message: 'Invalid game ID',
+                user: req.session?.user || null,
+            });
+        }
+
+        const roomResult = await pool.query(
+            `SELECT id, name FROM game_room WHERE id = $1`,
+            [gameId]
+        );
+
+        const userId = req.session.user?.id;
+        if ((roomResult.rowCount ?? 0) === 0 || !userId || !(await HandHistory.canViewRoom(gameId, userId))) {
+            return res.status(404).render('pages/error', {
+                statusCode: 404,
+                title: 'Game Not Found',
+                message: 'The game room does not exist',
+                user: req.session?.user || null,
+            });
+        }
+
+        res.render('pages/hands', {
+            gameId,
+            gameName: roomResult.rows[0].name,
+            userId,
+            user: req.session?.user || null,
+        });
+    } catch (error) {
+        console.error('[getHandsPage] error:', error);
+        res.status(500).render('pages/error', {
+            statusCode: 500,
+            title: 'Server Error',
+            message: 'Failed to load hand history',
+            user: req.session?.user || null,
+        });
+    }
+}
+
+// List the hands played in a game room
+export async function getHands(req: Request, res: Response) {
+    try {
+        const gameId = parseInt(req.params.id);
+        const userId = req.session.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        if (isNaN(gameId)) {
+            return res.status(400).json({ error: 'Invalid game ID' });
+        }
+
+        if (!(await HandHistory.canViewRoom(gameId, userId))) {
+            return res.status(404).json({ error: 'Game not found' });
+        }
+
+        const limit = Math.min(parseInt(String(req.query.limit ?? '50')) || 50, 200);
+        const offset = Math.max(parseInt(String(req.query.offset ?? '0')) || 0, 0);
+
+        const hands = await HandHistory.listHands(gameId, limit, offset);
+
+        return res.json({ hands, limit, offset });
+    } catch (error) {
+        console.error('[getHands] error:', error);
+        return res.status(500).json({ error: 'Failed to fetch hands' });
+    }
+}
+
+// Get one hand with its step-by-step replay
+export async function getHand(req: Request, res: Response) {
+    try {
+        const handId = parseInt(req.params.handId);
+        const userId = req.session.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        if (isNaN(handId)) {
+            return res.status(400).json({ error: 'Invalid hand ID' });
+        }
+
+        const hand = await HandHistory.loadHand(handId);
+
+        if (!hand || !(await HandHistory.canViewRoom(hand.roomId, userId))) {
+            return res.status(404).json({ error: 'Hand not found' });
+        }
+
+        if (!hand.isCompleted) {
+            return res.status(400).json({ error: 'Hand is still in progress' });
+        }
+
+        // Replay only ever sees the cards the viewer is allowed to see
+        const visibleHand = HandHistory.redactHoleCards(hand, userId);
+
+        return res.json({ hand: visibleHand, replay: HandHistory.buildReplay(visibleHand) });
+    } catch (error) {
+        console.error('[getHand] error:', error);
+        return res.status(500).json({ error: 'Failed to fetch hand' });
+    }
+}
+
+// Export every hand of a game room as PokerStars hand history text
+export async function exportGameHands(req: Request, res: Response) {
+    try {
+        const gameId = parseInt(req.params.id);
+        const userId = req.session.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        if (isNaN(gameId)) {
+            return res.status(400).json({ error: 'Invalid game ID' });
+        }
+
+        if (!(await HandHistory.canViewRoom(gameId, userId))) {
+            return res.status(404).json({ error: 'Game not found' });
+        }
+
+        const handIds = await HandHistory.findHandIds({ roomId: gameId });
+        const hands = await loadHandsForExport(handIds);
+
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="game-${gameId}-hands.txt"`);
+        return res.send(HandHistoryExporter.formatHands(hands, userId));
+    } catch (error) {
+        console.error('[exportGameHands] error:', error);
+        return res.status(500).json({ error: 'Failed to export hands' });
+    }
+}
+
+// Export the hands the logged-in player was dealt into between two dates (to is inclusive)
+export async function exportHands(req: Request, res: Response) {
+    try {
+        const userId = req.session.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        const from = parseDate(req.query.from);
+        const to = parseDate(req.query.to);
+
+        if (!from || !to) {
+            return res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format' });
+        }
+
+        if (to < from) {
+            return res.status(400).json({ error: 'to must not be before from' });
+        }
+
+        const endOfRange = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+        const handIds = await HandHistory.findHandIds({ userId, from, to: endOfRange });
+        const hands = await loadHandsForExport(handIds);
+
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="hands-${req.query.from}-${req.query.to}.txt"`);
+        return res.send(HandHistoryExporter.formatHands(hands, userId));
+    } catch (error) {
+        console.error('[exportHands] error:', error);
+        return res.status(500).json({ error: 'Failed to export hands' });
+    }
+}
+
+// Import a hand history file: PokerStars text or the JSON the hand API returns
+// The file is the raw request body (text/plain), or { content, format } as JSON
+export async function importHands(req: Request, res: Response) {
+    try {
+        const userId = req.session.user?.id;
+
+        if (!userId) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        const content = typeof req.body === 'string' ? req.body : req.body?.content;
+        const format = req.query.format ?? req.body?.format;
+
+        if (typeof content !== 'string' || content.trim().length === 0) {
+            return res.status(400).json({ error: 'No hand history to import' });
+        }
+
+        if (format !== undefined && format !== 'pokerstars' && format !== 'json') {
+            return res.status(400).json({ error: 'format must be pokerstars or json' });
+        }
+
+        const result = HandHistoryParser.parse(content, format as HandHistoryFormat | undefined);
+
+        if (result.hands.length === 0) {
+            return res.status(400).json({ error: 'No valid hands to import', errors: result.errors });
+        }
+
+        const summary = await HandHistoryImporter.importHands(userId, result.format, result.hands, result.errors.length);
+
+        return res.status(201).json({
+            importId: summary.importId,
+            roomId: summary.roomId,
+            imported: summary.handIds.length,
+            errors: result.errors,
+        });
+    } catch (error) {
+        console.error('[importHands] error:', error);
+        return res.status(500).json({ error: 'Failed to import hands' });
+    }
+}
@@ -4,7 +4,9 @@
  */
 
 import { Server, Socket } from 'socket.io';
-import { PokerGameEngine } from '../poker/PokerGameEngine.js';
+import { query } from '../database.js';
+import { EngineSnapshot, PokerGameEngine } from '../poker/PokerGameEngine.js';
+import { Card } from '../poker/types.js';
 
 // Store active game engines by room ID
 const activeGames = new Map<number, PokerGameEngine>();
@@ -30,6 +32,37 @@ export function unregisterGame(roomId: number): void {
     activeGames.delete(roomId);
 }
 
+/**
+ * Rebuild the engines of games that were in progress when the server stopped
+ * Each game resumes from its last snapshot, with a fresh timer for the player to act
+ */
+export async function restoreActiveGames(io: Server): Promise<number> {
+    const result = await query<{ room_id: string; version: number; state: EngineSnapshot }>(
+        `SELECT DISTINCT ON (s.room_id) s.room_id, s.version, s.state
+        FROM game_snapshots s
+        JOIN game_room gr ON s.room_id = gr.id
+        JOIN game g ON s.game_id = g.id
+        WHERE gr.status = 'in_progress' AND g.end_time IS NULL
+        ORDER BY s.room_id, s.game_id DESC`
+    );
+
+    for (const row of result.rows) {
+        const roomId = Number(row.room_id);
+
+        try {
+            const engine = PokerGameEngine.fromSnapshot(row.state, io, row.version);
+            registerGame(roomId, engine);
+            await engine.resume();
+            console.log(`[pokerGameController] Restored game in room ${roomId} at hand ${row.state.gameState.handNumber}`);
+        } catch (error) {
+            console.error(`[pokerGameController] Failed to restore game in room ${roomId}:`, error);
+            unregisterGame(roomId);
+        }
+    }
+
+    return result.rows.length;
+}
+
 /**
  * Register all poker game WebSocket event handlers
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6
@@ -58,6 +91,10 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
     socket.removeAllListeners('game:action:call');
     socket.removeAllListeners('game:action:raise');
     socket.removeAllListeners('game:action:allin');
+    socket.removeAllListeners('game:action:draw');
+    socket.removeAllListeners('game:action:runittwice');
+    socket.removeAllListeners('game:action:show');
+    socket.removeAllListeners('game:action:muck');
 
     /**
      * Handle fold action
@@ -167,6 +204,158 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
         }
     });
 
+    /**
+     * Handle a draw: the cards to throw away, an empty list to stand pat
+     */
+    socket.on('game:action:draw', async (data: { discards: Card[] }) => {
+        console.log(`[game:action:draw] User ${numericUserId} drawing with data:`, data);
+        try {
+            if (!data || !Array.isArray(data.discards)) {
+                throw new Error('Invalid discards');
+            }
+
+            await game.handleDraw(numericUserId, data.discards);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:action:draw] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle an answer to the run-it-twice offer made when everyone is all-in
+     */
+    socket.on('game:action:runittwice', async (data: { agree: boolean }) => {
+        console.log(`[game:action:runittwice] User ${numericUserId} answering with data:`, data);
+        try {
+            if (!data || typeof data.agree !== 'boolean') {
+                throw new Error('Invalid run it twice answer');
+            }
+
+            await game.voteRunItTwice(numericUserId, data.agree);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:action:runittwice] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle showing cards after mucking at showdown, or after winning without one
+     */
+    socket.on('game:action:show', async () => {
+        console.log(`[game:action:show] User ${numericUserId} showing their cards`);
+        try {
+            await game.showCards(numericUserId);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:action:show] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle keeping mucked cards hidden
+     */
+    socket.on('game:action:muck', async () => {
+        console.log(`[game:action:muck] User ${numericUserId} mucking their cards`);
+        try {
+            await game.muckCards(numericUserId);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:action:muck] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle a rebuy after busting (cash games)
+     */
+    socket.on('game:chips:rebuy', async (data: { amount: number }) => {
+        console.log(`[game:chips:rebuy] User ${numericUserId} rebuying with data:`, data);
+        try {
+            if (!data || typeof data.amount !== 'number') {
+                throw new Error('Invalid rebuy amount');
+            }
+
+            await game.rebuy(numericUserId, data.amount);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:chips:rebuy] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle a top-up between hands (cash games)
+     */
+    socket.on('game:chips:topup', async (data: { amount: number }) => {
+        console.log(`[game:chips:topup] User ${numericUserId} topping up with data:`, data);
+        try {
+            if (!data || typeof data.amount !== 'number') {
+                throw new Error('Invalid top-up amount');
+            }
+
+            await game.topUp(numericUserId, data.amount);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:chips:topup] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle sitting out from the next hands
+     */
+    socket.on('game:seat:sitout', async () => {
+        console.log(`[game:seat:sitout] User ${numericUserId} sitting out`);
+        try {
+            await game.setSittingOut(numericUserId, true);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:seat:sitout] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
+    /**
+     * Handle sitting back in
+     */
+    socket.on('game:seat:sitin', async () => {
+        console.log(`[game:seat:sitin] User ${numericUserId} sitting back in`);
+        try {
+            await game.setSittingOut(numericUserId, false);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('[game:seat:sitin] error:', errorMessage);
+
+            socket.emit('game:error', {
+                message: errorMessage
+            });
+        }
+    });
+
     console.log(`[pokerGameController] Registered poker handlers for user ${numericUserId} in room ${roomId}`);
 }
 
@@ -186,7 +375,12 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
  * Payload: {
  *   handNumber: number,
  *   dealerPosition: number,
- *   pot: number
+ *   pot: number,                                      // Antes and blinds already posted
+ *   anteType: 'per_player' | 'big_blind' | 'ante_only',
+ *   antes: Array<{ userId: number, amount: number }>, // Empty without an ante
+ *   street: string,                                   // 'preflop', 'third_street' in stud or 'predraw' in draw
+ *   bringIn?: { userId: number, amount: number } | null,  // Stud only: the forced bet of the worst upcard
+ *   upCards?: Array<{ userId: number, username: string, cards: Card[], cardCount: number }>  // Stud only
  * }
  */
 
@@ -194,10 +388,11 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
  * Event: game:cards:dealt
  * Emitted privately to each player with their hole cards
  * Requirement 1.5: Send each player's hole cards only to that specific player
+ * Sent to the `user:<id>` channel, so every open tab of that player receives it
  * 
  * Payload: {
  *   userId: number,
- *   holeCards: [Card, Card]
+ *   holeCards: Card[]
  * }
  */
 
@@ -243,10 +438,120 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
  * Payload: {
  *   street: string,
  *   boardCards: Card[],
+ *   secondBoardCards: Card[] | null,  // The second board when the hand is run twice
+ *   pot: number,
+ *   upCards?: Array<{ userId: number, username: string, cards: Card[], cardCount: number }>,  // Stud only
+ *   runOutHands?: Array<{ userId: number, username: string, holeCards: Card[] | null }>       // Stud run-outs only
+ * }
+ * Stud streets deal each player one more card, the board only gets a card when the deck runs short
+ * During an all-in run-out the streets follow each other a couple of seconds apart with no turns
+ */
+
+/**
+ * Event: game:draw:started
+ * Emitted in draw games when a betting round ends, the players still in draw one at a time in this order
+ * 
+ * Payload: {
+ *   userIds: number[],
+ *   maxDiscards: number
+ * }
+ */
+
+/**
+ * Event: game:draw:turn
+ * Emitted when it is a player's turn to draw, answer with game:action:draw { discards: Card[] }
+ * Ticks come as game:turn:tick; running out of time stands pat
+ * 
+ * Payload: {
+ *   userId: number,
+ *   timeRemaining: number,
+ *   maxDiscards: number
+ * }
+ */
+
+/**
+ * Event: game:draw:performed
+ * Emitted when a player has drawn; their new cards go to them alone in game:cards:dealt
+ * Once everyone has drawn, game:street:advanced starts the betting round after the draw
+ * 
+ * Payload: {
+ *   userId: number,
+ *   username: string,
+ *   cardCount: number    // 0 when standing pat
+ * }
+ */
+
+/**
+ * Event: game:runout:started
+ * Emitted when every player still in is all-in (or all but one), so no more betting can happen
+ * The hands are turned face up before the rest of the board is dealt
+ * 
+ * Payload: {
+ *   players: Array<{ userId: number, username: string, holeCards: Card[] | null }>,
+ *   boardCards: Card[],
  *   pot: number
  * }
  */
 
+/**
+ * Event: game:runittwice:offered
+ * Emitted with game:runout:started; answer with game:action:runittwice { agree: boolean }
+ * 
+ * Payload: {
+ *   userIds: number[],       // Players who have to agree
+ *   timeoutSeconds: number   // Not answering in time counts as no
+ * }
+ */
+
+/**
+ * Event: game:runittwice:voted
+ * Emitted when a player answers the run-it-twice offer
+ * 
+ * Payload: {
+ *   userId: number,
+ *   username: string,
+ *   agree: boolean
+ * }
+ */
+
+/**
+ * Event: game:runittwice:decided
+ * Emitted when the offer closes, on the first no, once everyone agreed or when time runs out
+ * Run twice, each pot is split in half (the odd chip to the first board) and each half is won on its own board
+ * 
+ * Payload: {
+ *   runTwice: boolean
+ * }
+ */
+
+/**
+ * Event: game:state:sync
+ * Emitted privately to a player joining a game already in progress
+ * Sent to the `user:<id>` channel, so it only carries that player's hole cards
+ * 
+ * Payload: {
+ *   handNumber: number,
+ *   isHandActive: boolean,
+ *   street: string,
+ *   boardCards: Card[],
+ *   pot: number,
+ *   currentBet: number,
+ *   dealerPosition: number,
+ *   players: Array<{ userId: number, username: string, stack: number, currentBet: number, isFolded: boolean, isSittingOut: boolean }>,
+ *   holeCards: Card[] | null,
+ *   bettingStructure: 'no_limit' | 'pot_limit' | 'fixed_limit',
+ *   variant: 'holdem' | 'short_deck' | 'omaha' | 'omaha_hi_lo' | 'stud' | 'razz' | 'five_card_draw',
+ *   upCards: Array<{ userId: number, username: string, cards: Card[], cardCount: number }> | null,  // Stud only
+ *   turn: { userId: number, playerBet: number, legalActions: LegalActions } | null,
+ *   draw: { userId: number, maxDiscards: number } | null,  // Draw games, while the players are drawing
+ *   secondBoardCards: Card[] | null,
+ *   runOut: {                 // Set while the board is run out with everyone all-in
+ *     players: Array<{ userId: number, username: string, holeCards: Card[] | null }>,
+ *     isRunItTwiceOpen: boolean
+ *   } | null
+ * }
+ */
+
 /**
  * Event: game:turn:started
  * Emitted when a player's turn begins
@@ -254,8 +559,19 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
  * 
  * Payload: {
  *   userId: number,
- *   timeRemaining: number
+ *   timeRemaining: number,
+ *   currentBet: number,
+ *   playerBet: number,
+ *   bettingStructure: 'no_limit' | 'pot_limit' | 'fixed_limit',
+ *   legalActions: {
+ *     canCheck: boolean,
+ *     callAmount: number,        // Chips a call adds, 0 when checking is possible
+ *     minRaise: number | null,   // Smallest bet or raise as a street total, null if they can't bet or raise
+ *     maxRaise: number | null,   // Largest bet or raise as a street total
+ *     allIn: number | null       // Chips going all-in adds, null if the betting structure doesn't allow it
+ *   }
  * }
+ * handlePlayerAction rejects anything outside legalActions
  */
 
 /**
@@ -279,11 +595,77 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
  *     username: string,
  *     amountWon: number,
  *     handRank: string,
- *     holeCards?: [Card, Card],
+ *     holeCards?: Card[],
+ *     halves?: {               // Hi/lo showdowns: what the player won from each half, null for none
+ *       hi: { amountWon: number, handRank: string } | null,
+ *       lo: { amountWon: number, handRank: string } | null
+ *     },
  *     stack: number
  *   }>,
+ *   pots: Array<{
+ *     potIndex: number,
+ *     run: number,             // 1, or 2 for a pot's share on the second board
+ *     half: 'hi' | 'lo',       // 'lo' for the low half of a split pot, a pot without a qualifying low is all 'hi'
+ *     amount: number,
+ *     winners: Array<{ userId: number, username: string, amountWon: number }>
+ *   }>,
  *   pot: number,
- *   boardCards?: Card[]
+ *   boardCards?: Card[],
+ *   secondBoardCards?: Card[] | null
+ * }
+ */
+
+/**
+ * Event: game:showdown
+ * Emitted before game:winner:determined when two or more players reach showdown
+ * Hands are listed in the order they were turned over: the last player to bet or raise on the river first,
+ * otherwise the first player after the button, then clockwise. A hand that can't beat one already shown
+ * is mucked; after an all-in run-out every hand is shown
+ * 
+ * Payload: {
+ *   hands: Array<{
+ *     userId: number,
+ *     username: string,
+ *     position: number,
+ *     holeCards: Card[],
+ *     handRank: string,
+ *     lowHandRank?: string | null,    // Hi/lo games, null without a qualifying low
+ *     secondBoardHandRank?: string    // When the board was run twice
+ *   }>,
+ *   mucked: Array<{ userId: number, username: string }>
+ * }
+ */
+
+/**
+ * Event: game:show:offered
+ * Emitted privately to a player who mucked at showdown or won without one
+ * Answer with game:action:show or game:action:muck before the next hand, the cards stay hidden otherwise
+ * 
+ * Payload: {
+ *   timeoutSeconds: number
+ * }
+ */
+
+/**
+ * Event: game:cards:shown
+ * Emitted when a player shows cards they didn't have to
+ * 
+ * Payload: {
+ *   userId: number,
+ *   username: string,
+ *   holeCards: Card[],
+ *   handRank: string | null,  // Null before the flop
+ *   lowHandRank?: string | null // Hi/lo games, null without a qualifying low
+ * }
+ */
+
+/**
+ * Event: game:cards:mucked
+ * Emitted when a player who could have shown decides to keep their cards hidden
+ * 
+ * Payload: {
+ *   userId: number,
+ *   username: string
  * }
  */
 
@@ -297,23 +679,73 @@ export function registerPokerHandlers(_io: Server, socket: Socket, userId: numbe
  *     userId: number,
  *     username: string,
  *     stack: number,
- *     isActive: boolean
+ *     isActive: boolean,
+ *     isSittingOut: boolean
  *   }>,
  *   eliminatedPlayers: Array<{
  *     userId: number,
- *     username: string
+ *     username: string,
+ *     finishPosition: number
  *   }>
  * }
  */
 
+/**
+ * Event: game:blinds:raised
+ * Emitted between hands when a tournament moves to its next blind level
+ * 
+ * Payload: {
+ *   level: number,
+ *   smallBlind: number,
+ *   bigBlind: number,
+ *   ante: number,
+ *   durationHands?: number,
+ *   durationMinutes?: number
+ * }
+ */
+
+/**
+ * Event: game:chips:updated
+ * Emitted when a cash game player buys in, rebuys, tops up or cashes out
+ * 
+ * Payload: {
+ *   userId: number,
+ *   username: string,
+ *   entryType: 'buy_in' | 'rebuy' | 'top_up' | 'cash_out',
+ *   amount: number,
+ *   stack: number
+ * }
+ */
+
+/**
+ * Event: game:seat:updated
+ * Emitted when a player sits out or sits back in
+ * 
+ * Payload: {
+ *   userId: number,
+ *   username: string,
+ *   isSittingOut: boolean
+ * }
+ */
+
+/**
+ * Event: game:waiting
+ * Emitted when a cash game pauses because fewer than two players can be dealt in
+ * Dealing resumes as soon as someone rebuys or sits back in
+ * 
+ * Payload: {
+ *   message: string
+ * }
+ */
+
 /**
  * Event: game:positions:updated
  * Emitted when dealer and blind positions are updated
  * Requirement 9.2: Broadcast game state changes to all players
  * 
  * Payload: {
- *   dealerPosition: number,
- *   smallBlindPosition: number,
+ *   dealerPosition: number,      // May be an empty seat (dead button)
+ *   smallBlindPosition: number,  // May be an empty or sitting-out seat, nobody posts it then
  *   bigBlindPosition: number
  * }
  */
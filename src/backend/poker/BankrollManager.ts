@@ -0,0 +1,114 @@
+/**
+ * BankrollManager - Moves chips between a player's persistent bankroll and the tables
+ * Every change is written to bankroll_transactions together with the resulting balance
+ */
+
+import { query } from '../database.js';
+import { BankrollTransactionType } from './types.js';
+
+export interface BankrollTransaction {
+    id: number;
+    gameId: number | null;
+    txType: BankrollTransactionType;
+    amount: number;
+    balanceAfter: number;
+    createdAt: Date;
+}
+
+export class BankrollManager {
+    // Balance every new account starts with (matches the users.bankroll column default)
+    static readonly STARTING_BANKROLL = 10000;
+
+    /**
+     * Record the opening balance of a freshly created account
+     */
+    static async openAccount(userId: number): Promise<void> {
+        await query(
+            `INSERT INTO bankroll_transactions (user_id, tx_type, amount, balance_after)
+            SELECT id, 'opening', bankroll, bankroll FROM users WHERE id = $1`,
+            [userId]
+        );
+    }
+
+    /**
+     * Take chips out of a bankroll to bring them to a table
+     * @throws Error when the balance can't cover the amount
+     */
+    static async debit(userId: number, amount: number, gameId: number, txType: BankrollTransactionType): Promise<number> {
+        const balance = await this.apply(userId, -amount, gameId, txType);
+        if (balance === null) {
+            throw new Error('Insufficient bankroll');
+        }
+        return balance;
+    }
+
+    /**
+     * Return chips from a table to a bankroll
+     */
+    static async credit(userId: number, amount: number, gameId: number, txType: BankrollTransactionType): Promise<number> {
+        const balance = await this.apply(userId, amount, gameId, txType);
+        if (balance === null) {
+            throw new Error('Player not found');
+        }
+        return balance;
+    }
+
+    /**
+     * Current balance of a player
+     */
+    static async getBalance(userId: number): Promise<number> {
+        const result = await query<{ bankroll: string }>(
+            `SELECT bankroll FROM users WHERE id = $1`,
+            [userId]
+        );
+        return result.rows.length > 0 ? Number(result.rows[0].bankroll) : 0;
+    }
+
+    /**
+     * Transaction history of a player, newest first
+     */
+    static async getTransactions(userId: number, limit: number, offset: number): Promise<BankrollTransaction[]> {
+        const result = await query(
+            `SELECT id, game_id, tx_type, amount, balance_after, created_at
+            FROM bankroll_transactions
+            WHERE user_id = $1
+            ORDER BY created_at DESC, id DESC
+            LIMIT $2 OFFSET $3`,
+            [userId, limit, offset]
+        );
+
+        return result.rows.map((row: any) => ({
+            id: Number(row.id),
+            gameId: row.game_id === null ? null : Number(row.game_id),
+            txType: row.tx_type,
+            amount: Number(row.amount),
+            balanceAfter: Number(row.balance_after),
+            createdAt: row.created_at
+        }));
+    }
+
+    /**
+     * Change the balance and log it in one statement so the two can't drift apart
+     * Returns null when the user doesn't exist or the balance would go negative
+     */
+    private static async apply(
+        userId: number,
+        amount: number,
+        gameId: number,
+        txType: BankrollTransactionType
+    ): Promise<number | null> {
+        const result = await query<{ balance_after: string }>(
+            `WITH updated AS (
+                UPDATE users SET bankroll = bankroll + $2
+                WHERE id = $1 AND bankroll + $2 >= 0
+                RETURNING id, bankroll
+            )
+            INSERT INTO bankroll_transactions (user_id, game_id, tx_type, amount, balance_after)
+            SELECT id, $3, $4, $2, bankroll FROM updated
+            RETURNING balance_after`,
+            [userId, amount, gameId, txType]
+        );
+
+        return result.rows.length > 0 ? Number(result.rows[0].balance_after) : null;
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * BettingRules - The betting rules shared by the live engine and the hand history importer
+ * Pure functions over player chip counts, so a recorded hand can be replayed through
+ * exactly the checks PokerGameEngine.handlePlayerAction applies at the table
+ */
+
+import { RaiseLimits } from './BettingStructure.js';
+import { PlayerAction } from './types.js';
+
+export interface BettingPlayer {
+    position: number;
+    stack: number;
+    currentBet: number; // Chips put in on this street
+    hasActed: boolean;
+    isFolded: boolean;
+    canRaise: boolean; // False once an incomplete all-in raise comes back to a player who already acted
+}
+
+// Betting state of the current street
+export interface BettingRound {
+    currentBet: number; // Bet every player has to match
+    lastRaiseSize: number; // Size of the last full bet or raise, the big blind until someone bets
+    raiseCount: number; // Full bets and raises so far, for structures that cap them
+}
+
+// What the player to act may do, sent with the turn and checked again when they act
+export interface LegalActions {
+    canCheck: boolean;
+    callAmount: number; // Chips a call adds, 0 when they can check
+    minRaise: number | null; // Smallest bet or raise as a street total, null when they can't bet or raise
+    maxRaise: number | null; // Largest bet or raise as a street total
+    allIn: number | null; // Chips going all-in adds, null when the structure doesn't allow it
+}
+
+export interface ResolvedAction {
+    type: 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'all_in';
+    amount: number; // Chips the player adds to the pot
+    newCurrentBet: number; // Bet to match once the action is applied
+}
+
+export class BettingRules {
+    /**
+     * Everything the player may do facing the current bet
+     * Raise amounts are capped at the player's stack, so a short stack's only raise is all-in
+     * limits come from the table's betting structure, null when raising is capped for the street
+     */
+    static legalActions(
+        player: Pick<BettingPlayer, 'stack' | 'currentBet' | 'canRaise'>,
+        round: BettingRound,
+        limits: RaiseLimits | null
+    ): LegalActions {
+        const owed = Math.max(0, round.currentBet - player.currentBet);
+        const allInTo = player.currentBet + player.stack;
+        const raiseLimits = player.canRaise && allInTo > round.currentBet ? limits : null;
+
+        return {
+            canCheck: owed === 0,
+            callAmount: Math.min(owed, player.stack),
+            minRaise: raiseLimits ? Math.min(raiseLimits.minRaiseTo, allInTo) : null,
+            maxRaise: raiseLimits ? Math.min(raiseLimits.maxRaiseTo, allInTo) : null,
+            allIn: allInTo <= round.currentBet || (raiseLimits && allInTo <= raiseLimits.maxRaiseTo)
+                ? player.stack
+                : null,
+        };
+    }
+
+    /**
+     * Work out what an action does for a player facing the current bet, rejecting anything
+     * legalActions doesn't allow
+     * Calls and raises the player can't cover become all-ins, a raise with no bet to raise is a bet,
+     * and a call with nothing to call is a check
+     * Requirements: 2.2, 2.3, 2.4, 2.5, 2.6
+     */
+    static resolveAction(
+        player: Pick<BettingPlayer, 'stack' | 'currentBet' | 'canRaise'>,
+        round: BettingRound,
+        action: PlayerAction,
+        limits: RaiseLimits | null
+    ): ResolvedAction {
+        const { currentBet } = round;
+        const legal = this.legalActions(player, round, limits);
+        const resolved = (type: ResolvedAction['type'], amount: number): ResolvedAction => ({
+            type,
+            amount,
+            newCurrentBet: Math.max(currentBet, player.currentBet + amount),
+        });
+
+        switch (action.type) {
+            case 'fold':
+                return resolved('fold', 0);
+
+            case 'check':
+                if (!legal.canCheck) {
+                    throw new Error('Cannot check, must call or fold');
+                }
+                return resolved('check', 0);
+
+            case 'call':
+                if (legal.canCheck && legal.callAmount === 0) {
+                    return resolved('check', 0);
+                }
+                return currentBet - player.currentBet > player.stack
+                    ? resolved('all_in', player.stack)
+                    : resolved('call', legal.callAmount);
+
+            case 'raise': {
+                const raiseAmount = (action.amount ?? 0) - player.currentBet;
+                if (raiseAmount >= player.stack) {
+                    // Raising everything (or more than they have) is an all-in, short of a full raise or not
+                    return this.resolveAllIn(player, round, legal);
+                }
+
+                if (legal.minRaise === null || legal.maxRaise === null) {
+                    throw new Error(this.cannotRaiseReason(player));
+                }
+
+                const name = currentBet === 0 ? 'Bet' : 'Raise';
+                if (!action.amount || action.amount < legal.minRaise) {
+                    throw new Error(`${name} amount too low, minimum is ${legal.minRaise}`);
+                }
+                if (action.amount > legal.maxRaise) {
+                    throw new Error(`${name} amount too high, maximum is ${legal.maxRaise}`);
+                }
+
+                return resolved(currentBet === 0 ? 'bet' : 'raise', raiseAmount);
+            }
+
+            case 'all_in':
+                return this.resolveAllIn(player, round, legal);
+
+            default:
+                throw new Error(`Unknown action type: ${action.type}`);
+        }
+    }
+
+    /**
+     * Apply a resolved action to the player and, when it raises the bet, send the action round again
+     * A full raise reopens the betting for everyone; an all-in for less than a full raise only makes
+     * the players who already acted call the difference or fold
+     * Returns the betting state afterwards
+     */
+    static applyAction<T extends BettingPlayer>(player: T, players: T[], resolved: ResolvedAction, round: BettingRound): BettingRound {
+        player.hasActed = true;
+        if (resolved.type === 'fold') {
+            player.isFolded = true;
+        }
+
+        const increment = resolved.newCurrentBet - round.currentBet;
+        if (increment <= 0) {
+            return round;
+        }
+
+        // Completing a bet short of a full one counts as the first full bet, whatever it adds
+        const isFullRaise = increment >= round.lastRaiseSize
+            || (this.isIncompleteBet(round) && resolved.newCurrentBet >= round.lastRaiseSize);
+        for (const other of players) {
+            if (other === player || other.isFolded || other.stack === 0) {
+                continue;
+            }
+            if (isFullRaise) {
+                other.hasActed = false;
+                other.canRaise = true;
+            } else if (other.hasActed) {
+                other.hasActed = false;
+                other.canRaise = false;
+            }
+        }
+
+        return {
+            currentBet: resolved.newCurrentBet,
+            lastRaiseSize: isFullRaise ? Math.max(increment, round.lastRaiseSize) : round.lastRaiseSize,
+            raiseCount: isFullRaise ? round.raiseCount + 1 : round.raiseCount,
+        };
+    }
+
+    /**
+     * The bet to call is short of a full bet and nobody has made one yet, like a stud bring-in
+     * or an all-in for less than the big blind
+     */
+    static isIncompleteBet(round: BettingRound): boolean {
+        return round.raiseCount === 0 && round.currentBet > 0 && round.currentBet < round.lastRaiseSize;
+    }
+
+    /**
+     * Put a player back to the start of a street
+     */
+    static resetForStreet(player: BettingPlayer): void {
+        player.currentBet = 0;
+        player.hasActed = false;
+        player.canRaise = true;
+    }
+
+    /**
+     * Every chip the player has left; raising this way needs the betting to be open to them
+     * and has to stay within the structure's maximum
+     */
+    private static resolveAllIn(
+        player: Pick<BettingPlayer, 'stack' | 'currentBet' | 'canRaise'>,
+        round: BettingRound,
+        legal: LegalActions
+    ): ResolvedAction {
+        if (legal.allIn === null) {
+            throw new Error(legal.maxRaise === null
+                ? this.cannotRaiseReason(player)
+                : `All-in is more than the maximum raise to ${legal.maxRaise}`);
+        }
+
+        return {
+            type: 'all_in',
+            amount: player.stack,
+            newCurrentBet: Math.max(round.currentBet, player.currentBet + player.stack),
+        };
+    }
+
+    private static cannotRaiseReason(player: Pick<BettingPlayer, 'canRaise'>): string {
+        return player.canRaise
+            ? 'Betting is capped on this street, you can only call or fold'
+            : 'Betting was not reopened, you can only call or fold';
+    }
+
+    /**
+     * The next seat to act clockwise after the given position
+     * All-in players have nothing left to decide and are skipped
+     * Requirements: 2.1
+     */
+    static nextToAct(players: BettingPlayer[], afterPosition: number): number | null {
+        const positions = players
+            .filter(p => !p.isFolded && p.stack > 0)
+            .map(p => p.position)
+            .sort((a, b) => a - b);
+
+        if (positions.length === 0) {
+            return null;
+        }
+
+        return positions.find(position => position > afterPosition) ?? positions[0];
+    }
+
+    /**
+     * A betting round is complete when every player with chips has acted and matched the bet
+     * With at most one player left holding chips there is nobody to bet against,
+     * so the round is also over once that player has matched
+     * Requirements: 3.5
+     */
+    static isRoundComplete(players: BettingPlayer[], currentBet: number): boolean {
+        const canAct = players.filter(p => !p.isFolded && p.stack > 0);
+
+        if (canAct.some(p => p.currentBet < currentBet)) {
+            return false;
+        }
+
+        return canAct.length <= 1 || canAct.every(p => p.hasActed);
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * BettingStructure - How much a player may bet or raise: no-limit, pot-limit or fixed-limit
+ * Each room picks one; BettingRules asks it for the raise limits before accepting a bet or raise
+ */
+
+import { BettingPlayer, BettingRound, BettingRules } from './BettingRules.js';
+import { BettingStructureType, Street } from './types.js';
+
+// Raise limits as street totals ("raise to"), before the player's stack is taken into account
+export interface RaiseLimits {
+    minRaiseTo: number;
+    maxRaiseTo: number;
+}
+
+export abstract class BettingStructure {
+    abstract readonly type: BettingStructureType;
+
+    static readonly TYPES: BettingStructureType[] = ['no_limit', 'pot_limit', 'fixed_limit'];
+
+    /**
+     * The structure a room was created with
+     */
+    static create(type: BettingStructureType): BettingStructure {
+        switch (type) {
+            case 'pot_limit':
+                return new PotLimitStructure();
+            case 'fixed_limit':
+                return new FixedLimitStructure();
+            default:
+                return new NoLimitStructure();
+        }
+    }
+
+    /**
+     * Betting state at the start of a street
+     * The street the blinds are posted on (a variant's first) starts with the big blind as the bet to call,
+     * and the big blind counts as the first bet; every other street, and any street without blinds, opens unbet
+     */
+    newRound(street: Street, bigBlind: number, postsBlinds = false): BettingRound {
+        return postsBlinds
+            ? { currentBet: bigBlind, lastRaiseSize: bigBlind, raiseCount: 1 }
+            : { currentBet: 0, lastRaiseSize: bigBlind, raiseCount: 0 };
+    }
+
+    /**
+     * Range a bet or raise has to fall in, or null when no more raises are allowed this street
+     * pot is every chip in the middle, the current street's bets included
+     */
+    abstract raiseLimits(round: BettingRound, player: Pick<BettingPlayer, 'currentBet'>, pot: number): RaiseLimits | null;
+
+    /**
+     * Smallest raise: the last bet or raise again on top of the current bet
+     * Until someone makes a full bet, a bet short of one (a stud bring-in) only has to be completed to it
+     */
+    protected minRaiseTo(round: BettingRound): number {
+        return BettingRules.isIncompleteBet(round)
+            ? round.lastRaiseSize
+            : round.currentBet + round.lastRaiseSize;
+    }
+}
+
+/**
+ * No-limit: raise at least the last bet or raise, up to everything in front of you
+ */
+export class NoLimitStructure extends BettingStructure {
+    readonly type = 'no_limit' as const;
+
+    raiseLimits(round: BettingRound): RaiseLimits {
+        return {
+            minRaiseTo: this.minRaiseTo(round),
+            maxRaiseTo: Infinity,
+        };
+    }
+}
+
+/**
+ * Pot-limit: the most you can raise is the size of the pot after you call
+ */
+export class PotLimitStructure extends BettingStructure {
+    readonly type = 'pot_limit' as const;
+
+    raiseLimits(round: BettingRound, player: Pick<BettingPlayer, 'currentBet'>, pot: number): RaiseLimits {
+        const minRaiseTo = this.minRaiseTo(round);
+        const callAmount = round.currentBet - player.currentBet;
+
+        return {
+            minRaiseTo,
+            maxRaiseTo: Math.max(minRaiseTo, round.currentBet + pot + callAmount),
+        };
+    }
+}
+
+/**
+ * Fixed-limit: bets and raises are one small bet (the big blind) before the turn and one big bet
+ * (twice the big blind) from the turn on, from fifth street in stud and after the draw, with at most four bets per street
+ */
+export class FixedLimitStructure extends BettingStructure {
+    readonly type = 'fixed_limit' as const;
+
+    static readonly MAX_BETS_PER_STREET = 4;
+    static readonly BIG_BET_STREETS: Street[] = ['turn', 'river', 'fifth_street', 'sixth_street', 'seventh_street', 'draw'];
+
+    newRound(street: Street, bigBlind: number, postsBlinds = false): BettingRound {
+        const round = super.newRound(street, bigBlind, postsBlinds);
+        const isBigBetStreet = FixedLimitStructure.BIG_BET_STREETS.includes(street);
+        return { ...round, lastRaiseSize: isBigBetStreet ? bigBlind * 2 : bigBlind };
+    }
+
+    raiseLimits(round: BettingRound): RaiseLimits | null {
+        if (round.raiseCount >= FixedLimitStructure.MAX_BETS_PER_STREET) {
+            return null;
+        }
+
+        const raiseTo = this.minRaiseTo(round);
+        return { minRaiseTo: raiseTo, maxRaiseTo: raiseTo };
+    }
+}
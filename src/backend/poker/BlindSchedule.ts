@@ -0,0 +1,83 @@
+/**
+ * BlindSchedule - Builds and validates tournament blind structures
+ */
+
+import { BlindLevel, TableConfig } from './types.js';
+
+export type LevelDurationUnit = 'hands' | 'minutes';
+
+export class BlindSchedule {
+    // Multipliers applied to the room's opening blinds at each level
+    private static readonly LEVEL_MULTIPLIERS = [1, 1.5, 2, 3, 4, 6, 8, 10, 15, 20, 30, 40, 60, 80, 100];
+
+    // Level (0-based) from which antes start: 10% of the big blind from every player,
+    // or a full big blind from the big blind alone with a big blind ante
+    // Ante-only tables raise the ante with the blinds from the first level
+    private static readonly ANTE_FROM_LEVEL = 3;
+
+    /**
+     * Build an escalating schedule starting at the room's blinds
+     */
+    static build(config: TableConfig, duration: number, unit: LevelDurationUnit): BlindLevel[] {
+        return this.LEVEL_MULTIPLIERS.map((multiplier, index) => {
+            const smallBlind = Math.round(config.smallBlind * multiplier);
+            const bigBlind = Math.round(config.bigBlind * multiplier);
+            const levelAnte = config.anteType === 'big_blind' ? bigBlind : Math.round(bigBlind / 10);
+            const ante = config.anteType === 'ante_only'
+                ? Math.min(Math.round(config.ante * multiplier), bigBlind)
+                : index >= this.ANTE_FROM_LEVEL ? Math.max(config.ante, levelAnte) : config.ante;
+
+            return {
+                smallBlind,
+                bigBlind,
+                ante,
+                ...(unit === 'hands' ? { durationHands: duration } : { durationMinutes: duration })
+            };
+        });
+    }
+
+    /**
+     * Validate a schedule supplied by a client
+     * Returns an error message, or null if the schedule is usable
+     */
+    static validate(levels: any): string | null {
+        if (!Array.isArray(levels) || levels.length === 0) {
+            return 'Blind schedule must have at least one level';
+        }
+
+        for (const [index, level] of levels.entries()) {
+            const { smallBlind, bigBlind, ante, durationHands, durationMinutes } = level ?? {};
+
+            if (![smallBlind, bigBlind, ante].every(value => Number.isInteger(value))) {
+                return `Level ${index + 1}: blinds and ante must be whole numbers`;
+            }
+
+            if (smallBlind < 1 || bigBlind < smallBlind || ante < 0 || ante > bigBlind) {
+                return `Level ${index + 1}: invalid blinds or ante`;
+            }
+
+            const hasHands = Number.isInteger(durationHands) && durationHands > 0;
+            const hasMinutes = Number.isInteger(durationMinutes) && durationMinutes > 0;
+            if (hasHands === hasMinutes) {
+                return `Level ${index + 1}: duration must be given in either hands or minutes`;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Check whether a level has run its course
+     */
+    static isLevelComplete(level: BlindLevel, handsPlayed: number, elapsedMs: number): boolean {
+        if (level.durationHands !== undefined) {
+            return handsPlayed >= level.durationHands;
+        }
+
+        if (level.durationMinutes !== undefined) {
+            return elapsedMs >= level.durationMinutes * 60 * 1000;
+        }
+
+        return false;
+    }
+}
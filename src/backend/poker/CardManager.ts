@@ -5,11 +5,15 @@ import { Card } from './types.js';
  * CardManager handles card representation, deck management, and dealing
  */
 export class CardManager {
+    // Short deck (6+) leaves out the twos, threes, fours and fives
+    static readonly SHORT_DECK_REMOVED_RANKS: Card['rank'][] = ['2', '3', '4', '5'];
+
     /**
-     * Creates a standard 52-card deck
+     * Creates a standard 52-card deck, or the 36-card short deck of sixes to aces
      */
-    static createDeck(): Card[] {
-        const ranks: Card['rank'][] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+    static createDeck(isShortDeck = false): Card[] {
+        const ranks = (['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'] as Card['rank'][])
+            .filter(rank => !isShortDeck || !this.SHORT_DECK_REMOVED_RANKS.includes(rank));
         const suits: Card['suit'][] = ['h', 'd', 'c', 's'];
         const deck: Card[] = [];
 
@@ -72,4 +76,18 @@ export class CardManager {
 
         return deck.splice(0, count);
     }
+
+    /**
+     * Deals from the deck, and once it runs out shuffles the discards into a new deck to deal the rest
+     * Both arrays are changed in place: the discard pile is emptied into the deck
+     */
+    static dealWithReshuffle(deck: Card[], discards: Card[], count: number): Card[] {
+        if (count <= deck.length) {
+            return this.dealCards(deck, count);
+        }
+
+        const rest = deck.splice(0);
+        deck.push(...this.shuffleDeck(discards.splice(0)));
+        return [...rest, ...this.dealCards(deck, count - rest.length)];
+    }
 }
@@ -0,0 +1,266 @@
+/**
+ * GameVariant - Which poker game a room plays: Texas Hold'em, short deck Hold'em, Omaha, Omaha Hi/Lo,
+ * Seven-Card Stud, Razz or Five-Card Draw
+ * Decides the deck, the streets and how many cards each player is dealt on them, how a player's hand
+ * is made from their cards and the board, and whether each pot is split with the best low hand
+ */
+
+import { CardManager } from './CardManager.js';
+import { HandEvaluator } from './HandEvaluator.js';
+import { Card, DrawStreet, GameVariantType, HandRank, PlayerState, Street, StudStreet } from './types.js';
+
+export abstract class GameVariant {
+    abstract readonly type: GameVariantType;
+    abstract readonly name: string; // As it appears in hand history headers
+    abstract readonly holeCardCount: number; // Every card a player holds by the end of the hand
+    readonly hasLowHalf: boolean = false; // Pots are split between the best high and the best qualifying low
+    readonly isShortDeck: boolean = false; // Played with 36 cards, sixes to aces
+    readonly isStud: boolean = false; // No board, each player's cards are dealt street by street, some face up
+    readonly isDraw: boolean = false; // No board, players swap cards in a draw after every betting round but the last
+    readonly hasBoard: boolean = true; // Community cards in the middle, the board an all-in hand can run twice
+    readonly maxPlayers: number = 10; // Most players the deck can deal a hand to
+    readonly streets: Street[] = ['preflop', 'flop', 'turn', 'river'];
+
+    static readonly TYPES: GameVariantType[] = ['holdem', 'short_deck', 'omaha', 'omaha_hi_lo', 'stud', 'razz', 'five_card_draw'];
+
+    /**
+     * The variant a room was created with
+     */
+    static create(type: GameVariantType): GameVariant {
+        switch (type) {
+            case 'short_deck':
+                return new ShortDeckVariant();
+            case 'omaha':
+                return new OmahaVariant();
+            case 'omaha_hi_lo':
+                return new OmahaHiLoVariant();
+            case 'stud':
+                return new SevenCardStudVariant();
+            case 'razz':
+                return new RazzVariant();
+            case 'five_card_draw':
+                return new FiveCardDrawVariant();
+            default:
+                return new HoldemVariant();
+        }
+    }
+
+    /**
+     * A fresh, unshuffled deck for the game
+     */
+    createDeck(): Card[] {
+        return CardManager.createDeck(this.isShortDeck);
+    }
+
+    /**
+     * Cards each player is dealt on a street; board games deal all the hole cards before the flop
+     */
+    cardsDealtOn(street: Street): number {
+        return street === this.streets[0] ? this.holeCardCount : 0;
+    }
+
+    /**
+     * A player's cards dealt face up for the whole table to see, none outside stud
+     */
+    upCards(_holeCards: Card[]): Card[] {
+        return [];
+    }
+
+    /**
+     * Best 5-card hand a player can make with their hole cards and the board
+     */
+    abstract evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank;
+
+    /**
+     * Best qualifying low hand, null when the player has none or the game has no low half
+     */
+    evaluateLowHand(_holeCards: Card[], _boardCards: Card[]): HandRank | null {
+        return null;
+    }
+
+    /**
+     * UserIds of the players holding the best hand
+     */
+    findWinners(players: PlayerState[], boardCards: Card[]): number[] {
+        return HandEvaluator.findWinners(players, boardCards, (hole, board) => this.evaluateHand(hole, board));
+    }
+
+    /**
+     * UserIds of the players holding the best qualifying low, empty when nobody qualifies
+     */
+    findLowWinners(players: PlayerState[], boardCards: Card[]): number[] {
+        return HandEvaluator.findLowWinners(players, boardCards, (hole, board) => this.evaluateLowHand(hole, board));
+    }
+}
+
+/**
+ * Texas Hold'em: two hole cards, the best five of the seven cards play
+ */
+export class HoldemVariant extends GameVariant {
+    readonly type = 'holdem' as const;
+    readonly name = "Hold'em";
+    readonly holeCardCount = 2;
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateHand(holeCards, boardCards);
+    }
+}
+
+/**
+ * Short deck (6+) Hold'em: Hold'em with the twos to fives taken out, so a flush beats a full house
+ * and A-6-7-8-9 is a straight. Usually played with antes only, see AnteType
+ */
+export class ShortDeckVariant extends GameVariant {
+    readonly type = 'short_deck' as const;
+    readonly name = "6+ Hold'em";
+    readonly holeCardCount = 2;
+    readonly isShortDeck = true;
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateShortDeckHand(holeCards, boardCards);
+    }
+}
+
+/**
+ * Omaha: four hole cards, a hand uses exactly two of them and exactly three from the board
+ */
+export class OmahaVariant extends GameVariant {
+    readonly type = 'omaha' as const;
+    readonly name = 'Omaha';
+    readonly holeCardCount = 4;
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateOmahaHand(holeCards, boardCards);
+    }
+}
+
+/**
+ * Omaha Hi/Lo eight-or-better: every pot is split between the best Omaha high hand and the best low
+ * of five different cards eight or under, again two from the hand and three from the board.
+ * Without a qualifying low the high hand takes the whole pot
+ */
+export class OmahaHiLoVariant extends GameVariant {
+    readonly type = 'omaha_hi_lo' as const;
+    readonly name = 'Omaha Hi/Lo';
+    readonly holeCardCount = 4;
+    readonly hasLowHalf = true;
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateOmahaHand(holeCards, boardCards);
+    }
+
+    evaluateLowHand(holeCards: Card[], boardCards: Card[]): HandRank | null {
+        return HandEvaluator.evaluateOmahaLowHand(holeCards, boardCards);
+    }
+}
+
+/**
+ * Stud games: two cards down and one up on third street, one more up on each of fourth to sixth street
+ * and the last one down on seventh, with no board. Everyone antes, the worst upcard posts the bring-in,
+ * and from fourth street on the best hand showing acts first
+ * Eight players need 56 cards, so when the deck runs short the seventh-street card is one community card
+ */
+export abstract class StudVariant extends GameVariant {
+    readonly holeCardCount = 7;
+    readonly isStud = true;
+    readonly hasBoard = false;
+    readonly maxPlayers = 8;
+    readonly streets: StudStreet[] = ['third_street', 'fourth_street', 'fifth_street', 'sixth_street', 'seventh_street'];
+
+    // Ties between upcards of the same rank go by suit, clubs lowest and spades highest
+    protected static readonly SUIT_ORDER: Card['suit'][] = ['c', 'd', 'h', 's'];
+
+    cardsDealtOn(street: Street): number {
+        return street === this.streets[0] ? 3 : 1;
+    }
+
+    upCards(holeCards: Card[]): Card[] {
+        return holeCards.slice(2, 6);
+    }
+
+    /**
+     * The player who has to post the bring-in on third street, null when nobody has chips left to post it
+     */
+    bringInPlayer<T extends PlayerState>(players: T[]): T | null {
+        const order = (player: T) => this.bringInOrder(this.upCards(player.holeCards!)[0]);
+
+        return players.reduce<T | null>((worst, player) => worst === null || order(player) < order(worst) ? player : worst, null);
+    }
+
+    /**
+     * The player showing the best hand, the first of them in the order given when several tie
+     */
+    bestShowing<T extends PlayerState>(players: T[]): T {
+        const showing = players.map(player => ({ player, hand: this.evaluateUpcards(this.upCards(player.holeCards!)) }));
+
+        return showing.reduce((best, next) => HandEvaluator.compareHands(next.hand, best.hand) > 0 ? next : best).player;
+    }
+
+    /**
+     * Where an upcard stands for the bring-in, the lowest brings it in
+     */
+    protected abstract bringInOrder(upcard: Card): number;
+
+    protected abstract evaluateUpcards(upcards: Card[]): HandRank;
+}
+
+/**
+ * Seven-Card Stud: the best five of a player's seven cards, the lowest upcard brings it in
+ */
+export class SevenCardStudVariant extends StudVariant {
+    readonly type = 'stud' as const;
+    readonly name = '7 Card Stud';
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateHand(holeCards, boardCards);
+    }
+
+    protected bringInOrder(upcard: Card): number {
+        return HandEvaluator.rankValue(upcard.rank) * 4 + StudVariant.SUIT_ORDER.indexOf(upcard.suit);
+    }
+
+    protected evaluateUpcards(upcards: Card[]): HandRank {
+        return HandEvaluator.evaluateUpcards(upcards);
+    }
+}
+
+/**
+ * Razz: stud for the lowest hand, aces low, straights and flushes don't count and there is no qualifier
+ * The highest upcard brings it in, kings first and spades before clubs
+ */
+export class RazzVariant extends StudVariant {
+    readonly type = 'razz' as const;
+    readonly name = 'Razz';
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateRazzHand([...holeCards, ...boardCards]);
+    }
+
+    protected bringInOrder(upcard: Card): number {
+        const rank = upcard.rank === 'A' ? 1 : HandEvaluator.rankValue(upcard.rank);
+        return -(rank * 4 + StudVariant.SUIT_ORDER.indexOf(upcard.suit));
+    }
+
+    protected evaluateUpcards(upcards: Card[]): HandRank {
+        return HandEvaluator.evaluateRazzHand(upcards);
+    }
+}
+
+/**
+ * Five-Card Draw: five cards down and no board, a betting round, then each player in turn throws away
+ * up to five cards for new ones from the deck, and a last betting round before the showdown
+ * Six players leave 22 cards for the draw; once those are gone the discards are shuffled into a new deck
+ */
+export class FiveCardDrawVariant extends GameVariant {
+    readonly type = 'five_card_draw' as const;
+    readonly name = '5 Card Draw';
+    readonly holeCardCount = 5;
+    readonly isDraw = true;
+    readonly hasBoard = false;
+    readonly maxPlayers = 6;
+    readonly streets: DrawStreet[] = ['predraw', 'draw'];
+
+    evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return HandEvaluator.evaluateHand(holeCards, boardCards);
+    }
+}
@@ -15,8 +15,11 @@ export class HandEvaluator {
     static readonly FOUR_OF_A_KIND = 7;
     static readonly STRAIGHT_FLUSH = 8;
 
+    // Highest card a low hand may have to qualify (eight or better)
+    static readonly LOW_QUALIFIER = 8;
+
     // Rank values for comparison (2=2, 3=3, ..., T=10, J=11, Q=12, K=13, A=14)
-    private static rankValue(rank: Card['rank']): number {
+    static rankValue(rank: Card['rank']): number {
         const values: Record<Card['rank'], number> = {
             '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
             'T': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
@@ -26,22 +29,123 @@ export class HandEvaluator {
 
     /**
      * Evaluates the best 5-card poker hand from 7 cards (2 hole + 5 board)
+     * Also works before the river, e.g. for cards shown after winning on the flop
      */
-    static evaluateHand(holeCards: [Card, Card], boardCards: Card[]): HandRank {
+    static evaluateHand(holeCards: Card[], boardCards: Card[]): HandRank {
         const allCards = [...holeCards, ...boardCards];
 
-        if (allCards.length !== 7) {
-            throw new Error(`Expected 7 cards, got ${allCards.length}`);
+        if (allCards.length < 5 || allCards.length > 7) {
+            throw new Error(`Expected 5 to 7 cards, got ${allCards.length}`);
+        }
+
+        // Generate all 5-card combinations, 21 of them on the river
+        return this.bestHand(this.getCombinations(allCards, 5));
+    }
+
+    /**
+     * Evaluates the best short deck (6+) hand from 2 hole and up to 5 board cards
+     * With the twos to fives gone a flush is harder to make than a full house and beats it,
+     * and the ace plays low in A-6-7-8-9, the lowest straight
+     */
+    static evaluateShortDeckHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        const allCards = [...holeCards, ...boardCards];
+
+        if (allCards.length < 5 || allCards.length > 7) {
+            throw new Error(`Expected 5 to 7 cards, got ${allCards.length}`);
+        }
+
+        return this.bestHand(this.getCombinations(allCards, 5), true);
+    }
+
+    /**
+     * Evaluates the best Omaha hand: exactly two of the four hole cards with exactly three board cards
+     */
+    static evaluateOmahaHand(holeCards: Card[], boardCards: Card[]): HandRank {
+        return this.bestHand(this.getOmahaCombinations(holeCards, boardCards));
+    }
+
+    /**
+     * Evaluates the best Omaha eight-or-better low, two hole cards and three board cards as for the high,
+     * or null when no five of them make a qualifying low
+     * Aces play low, straights and flushes don't count against a low
+     */
+    static evaluateOmahaLowHand(holeCards: Card[], boardCards: Card[]): HandRank | null {
+        let bestLow: HandRank | null = null;
+
+        for (const combo of this.getOmahaCombinations(holeCards, boardCards)) {
+            const low = this.evaluate5CardLow(combo);
+            if (low && (!bestLow || this.compareHands(low, bestLow) > 0)) {
+                bestLow = low;
+            }
+        }
+
+        return bestLow;
+    }
+
+    /**
+     * Evaluates the best Razz hand from up to seven cards: the lowest five, aces low with no qualifier
+     * Straights and flushes don't count, pairs do and make the low worse. With fewer than five cards
+     * (a player's upcards) it ranks what they show the same way
+     * The best low ranks highest, so compareHands and findWinners work unchanged
+     */
+    static evaluateRazzHand(cards: Card[]): HandRank {
+        if (cards.length < 1 || cards.length > 7) {
+            throw new Error(`Expected 1 to 7 cards, got ${cards.length}`);
+        }
+
+        const combinations = cards.length > 5 ? this.getCombinations(cards, 5) : [cards];
+        let bestLow: HandRank | null = null;
+
+        for (const combo of combinations) {
+            const low = this.evaluateRazzLow(combo);
+            if (!bestLow || this.compareHands(low, bestLow) > 0) {
+                bestLow = low;
+            }
+        }
+
+        return bestLow!;
+    }
+
+    /**
+     * Evaluates a stud player's upcards, to decide who acts first
+     * With at most four cards showing only pairs, trips and quads count, then the high cards
+     */
+    static evaluateUpcards(cards: Card[]): HandRank {
+        if (cards.length < 1 || cards.length > 4) {
+            throw new Error(`Expected 1 to 4 cards, got ${cards.length}`);
+        }
+
+        const rankCounts = this.getRankCounts(cards);
+        return {
+            ...this.pairing(rankCounts),
+            tiebreakers: rankCounts.map(c => c.value),
+        };
+    }
+
+    /**
+     * Every hand of exactly two hole cards and three board cards, 60 of them on the river
+     */
+    private static getOmahaCombinations(holeCards: Card[], boardCards: Card[]): Card[][] {
+        if (holeCards.length !== 4) {
+            throw new Error(`Expected 4 hole cards, got ${holeCards.length}`);
+        }
+        if (boardCards.length < 3) {
+            throw new Error(`Expected at least 3 board cards, got ${boardCards.length}`);
         }
 
-        // Generate all 21 possible 5-card combinations
-        const combinations = this.getCombinations(allCards, 5);
+        const boardTriples = this.getCombinations(boardCards, 3);
+        return this.getCombinations(holeCards, 2)
+            .flatMap(pair => boardTriples.map(triple => [...pair, ...triple]));
+    }
 
-        // Evaluate each combination and return the best
+    /**
+     * Evaluate each 5-card combination and return the best
+     */
+    private static bestHand(combinations: Card[][], isShortDeck = false): HandRank {
         let bestHand: HandRank | null = null;
 
         for (const combo of combinations) {
-            const hand = this.evaluate5CardHand(combo);
+            const hand = this.evaluate5CardHand(combo, isShortDeck);
             if (!bestHand || this.compareHands(hand, bestHand) > 0) {
                 bestHand = hand;
             }
@@ -50,16 +154,78 @@ export class HandEvaluator {
         return bestHand!;
     }
 
+    /**
+     * Evaluates five cards as an A-5 low: five different ranks, none above the qualifier
+     * Tiebreakers count down from the highest card with the lowest ranks worth the most,
+     * so compareHands ranks lows the same way it ranks high hands (8-7-6-5-4 < 7-5-4-3-2 < 5-4-3-2-A)
+     */
+    private static evaluate5CardLow(cards: Card[]): HandRank | null {
+        const values = cards
+            .map(card => card.rank === 'A' ? 1 : this.rankValue(card.rank))
+            .sort((a, b) => b - a);
+
+        if (new Set(values).size !== 5 || values[0] > this.LOW_QUALIFIER) {
+            return null;
+        }
+
+        return {
+            rank: this.HIGH_CARD,
+            name: `${values.map(value => value === 1 ? 'A' : String(value)).join('-')} Low`,
+            tiebreakers: values.map(value => this.LOW_QUALIFIER + 1 - value),
+        };
+    }
+
+    /**
+     * Evaluates up to five cards as a Razz low, scored down from the least paired
+     * Paired cards are compared first, then the rest from the highest down, the lowest ranks worth the most
+     */
+    private static evaluateRazzLow(cards: Card[]): HandRank {
+        const rankCounts = this.getRankCounts(cards, true);
+        const pairing = this.pairing(rankCounts);
+        const rankName = (value: number) => value === 1 ? 'A' : ['T', 'J', 'Q', 'K'][value - 10] ?? String(value);
+
+        return {
+            rank: this.HIGH_CARD - pairing.rank,
+            name: pairing.rank === this.HIGH_CARD
+                ? `${rankCounts.map(c => rankName(c.value)).join('-')} Low`
+                : pairing.name,
+            tiebreakers: rankCounts.map(c => 14 - c.value),
+        };
+    }
+
+    /**
+     * Rank made by pairing alone: pairs, trips, a full house or quads, high card otherwise
+     */
+    private static pairing(rankCounts: Array<{ value: number; count: number }>): Pick<HandRank, 'rank' | 'name'> {
+        const counts = rankCounts.map(c => c.count);
+
+        if (counts[0] === 4) {
+            return { rank: this.FOUR_OF_A_KIND, name: 'Four of a Kind' };
+        }
+        if (counts[0] === 3) {
+            return counts[1] === 2
+                ? { rank: this.FULL_HOUSE, name: 'Full House' }
+                : { rank: this.THREE_OF_A_KIND, name: 'Three of a Kind' };
+        }
+        if (counts[0] === 2) {
+            return counts[1] === 2
+                ? { rank: this.TWO_PAIR, name: 'Two Pair' }
+                : { rank: this.PAIR, name: 'Pair' };
+        }
+        return { rank: this.HIGH_CARD, name: 'High Card' };
+    }
+
     /**
      * Evaluates a specific 5-card hand
+     * In a short deck flushes and full houses swap ranks, no 5 cards can be both
      */
-    private static evaluate5CardHand(cards: Card[]): HandRank {
+    private static evaluate5CardHand(cards: Card[], isShortDeck = false): HandRank {
         if (cards.length !== 5) {
             throw new Error(`Expected 5 cards, got ${cards.length}`);
         }
 
         const isFlush = this.isFlush(cards);
-        const straightValue = this.getStraightValue(cards);
+        const straightValue = this.getStraightValue(cards, isShortDeck);
         const rankCounts = this.getRankCounts(cards);
 
         // Straight Flush
@@ -87,7 +253,7 @@ export class HandEvaluator {
             const threeKind = rankCounts.find(c => c.count === 3)!;
             const pair = rankCounts.find(c => c.count === 2)!;
             return {
-                rank: this.FULL_HOUSE,
+                rank: isShortDeck ? this.FLUSH : this.FULL_HOUSE,
                 name: 'Full House',
                 tiebreakers: [threeKind.value, pair.value]
             };
@@ -97,7 +263,7 @@ export class HandEvaluator {
         if (isFlush) {
             const values = cards.map(c => this.rankValue(c.rank)).sort((a, b) => b - a);
             return {
-                rank: this.FLUSH,
+                rank: isShortDeck ? this.FULL_HOUSE : this.FLUSH,
                 name: 'Flush',
                 tiebreakers: values
             };
@@ -178,9 +344,14 @@ export class HandEvaluator {
 
     /**
      * Determines winner(s) from multiple players
+     * evaluate makes a player's hand, Hold'em rules unless the game says otherwise
      * Returns array of userIds of winning players
      */
-    static findWinners(players: PlayerState[], boardCards: Card[]): number[] {
+    static findWinners(
+        players: PlayerState[],
+        boardCards: Card[],
+        evaluate: (holeCards: Card[], boardCards: Card[]) => HandRank = (hole, board) => this.evaluateHand(hole, board)
+    ): number[] {
         const activePlayers = players.filter(p => !p.isFolded && p.holeCards);
 
         if (activePlayers.length === 0) {
@@ -194,9 +365,33 @@ export class HandEvaluator {
         // Evaluate all hands
         const evaluatedHands = activePlayers.map(player => ({
             userId: player.userId,
-            hand: this.evaluateHand(player.holeCards!, boardCards)
+            hand: evaluate(player.holeCards!, boardCards)
         }));
 
+        return this.bestHands(evaluatedHands);
+    }
+
+    /**
+     * Determines the winner(s) of the low half among the players with a qualifying low
+     * Returns an empty array when nobody qualifies, and the high hand takes the whole pot
+     */
+    static findLowWinners(
+        players: PlayerState[],
+        boardCards: Card[],
+        evaluateLow: (holeCards: Card[], boardCards: Card[]) => HandRank | null
+    ): number[] {
+        const lowHands = players
+            .filter(p => !p.isFolded && p.holeCards)
+            .map(player => ({ userId: player.userId, hand: evaluateLow(player.holeCards!, boardCards) }))
+            .filter((eh): eh is { userId: number; hand: HandRank } => eh.hand !== null);
+
+        return lowHands.length > 0 ? this.bestHands(lowHands) : [];
+    }
+
+    /**
+     * UserIds holding the best of the evaluated hands, more than one when they tie
+     */
+    private static bestHands(evaluatedHands: Array<{ userId: number; hand: HandRank }>): number[] {
         // Find the best hand
         let bestHand = evaluatedHands[0].hand;
         for (let i = 1; i < evaluatedHands.length; i++) {
@@ -220,7 +415,7 @@ export class HandEvaluator {
         return cards.every(c => c.suit === suit);
     }
 
-    private static getStraightValue(cards: Card[]): number {
+    private static getStraightValue(cards: Card[], isShortDeck = false): number {
         const values = cards.map(c => this.rankValue(c.rank)).sort((a, b) => a - b);
 
         // Check for regular straight
@@ -236,25 +431,21 @@ export class HandEvaluator {
             return values[4]; // Return highest card value
         }
 
-        // Check for ace-low straight (A-2-3-4-5, also called wheel)
-        const hasAce = values.includes(14);
-        const hasTwo = values.includes(2);
-        const hasThree = values.includes(3);
-        const hasFour = values.includes(4);
-        const hasFive = values.includes(5);
+        // Check for ace-low straight (A-2-3-4-5, also called wheel, or A-6-7-8-9 in a short deck)
+        const lowValues = isShortDeck ? [6, 7, 8, 9] : [2, 3, 4, 5];
 
-        if (hasAce && hasTwo && hasThree && hasFour && hasFive) {
-            return 5; // In ace-low straight, the high card is 5
+        if (values.includes(14) && lowValues.every(value => values.includes(value))) {
+            return lowValues[3]; // In ace-low straight, the high card is 5 (9 in a short deck)
         }
 
         return 0; // Not a straight
     }
 
-    private static getRankCounts(cards: Card[]): Array<{ value: number; count: number }> {
+    private static getRankCounts(cards: Card[], isAceLow = false): Array<{ value: number; count: number }> {
         const counts = new Map<number, number>();
 
         for (const card of cards) {
-            const value = this.rankValue(card.rank);
+            const value = isAceLow && card.rank === 'A' ? 1 : this.rankValue(card.rank);
             counts.set(value, (counts.get(value) || 0) + 1);
         }
 
@@ -0,0 +1,463 @@
+/**
+ * HandHistory - Reads recorded hands back from the hands, actions, hand_cards and winners tables
+ * and rebuilds them action by action for replay
+ */
+
+import { query } from '../database.js';
+import { CardManager } from './CardManager.js';
+import { GameVariant } from './GameVariant.js';
+import { BettingStructureType, GameVariantType, PotHalf, RecordedActionType, Street } from './types.js';
+
+export interface HandPlayerRecord {
+    userId: number;
+    username: string;
+    seat: number | null;
+    startingStack: number | null; // Unknown for hands recorded before stacks were stored
+    holeCards: string[] | null; // Null once redacted for the viewer; in draw games the hand after the draw
+    upCards: string[]; // Stud cards dealt face up, never redacted; empty in board games
+    isShown: boolean | null; // Turned face up for the table, null for hands recorded before players could muck
+}
+
+export interface HandActionRecord {
+    userId: number;
+    username: string;
+    actionType: RecordedActionType;
+    amount: number;
+    street: Street;
+    draw?: HandDrawRecord; // Draw actions only
+}
+
+export interface HandDrawRecord {
+    cardCount: number;
+    discarded: string[] | null; // Null once redacted, only the player knows which cards they swapped
+    drawn: string[] | null;
+}
+
+export interface HandWinnerRecord {
+    userId: number;
+    username: string;
+    potIndex: number;
+    run: number; // 1, or 2 for the second board of a hand run twice
+    half: PotHalf; // 'lo' for the low half of a hi/lo pot
+    amountWon: number;
+    handRank: string;
+}
+
+export interface HandRecord {
+    id: number;
+    gameId: number;
+    roomId: number;
+    bettingStructure: BettingStructureType;
+    variant: GameVariantType;
+    handNumber: number;
+    dealerSeat: number;
+    smallBlindSeat: number;
+    bigBlindSeat: number;
+    boardCards: string[];
+    secondBoardCards: string[] | null; // Only when the board was run twice
+    potSize: number;
+    isCompleted: boolean;
+    startTime: Date;
+    wentToShowdown: boolean;
+    players: HandPlayerRecord[];
+    actions: HandActionRecord[];
+    winners: HandWinnerRecord[];
+}
+
+export interface HandSummary {
+    id: number;
+    gameId: number;
+    handNumber: number;
+    boardCards: string[];
+    potSize: number;
+    isCompleted: boolean;
+    startTime: Date;
+    winners: Array<{ userId: number; username: string; amountWon: number; handRank: string }>;
+}
+
+export interface ReplayStep {
+    street: Street;
+    boardCards: string[];
+    pot: number;
+    stacks: Record<number, number | null>;
+    folded: number[];
+    description: string;
+    action: HandActionRecord | null;
+}
+
+export class HandHistory {
+    // Board cards visible on each street; stud only has one, seventh street's when the deck ran short, draw none
+    static readonly BOARD_SIZE: Record<Street, number> = {
+        preflop: 0, flop: 3, turn: 4, river: 5,
+        third_street: 0, fourth_street: 0, fifth_street: 0, sixth_street: 0, seventh_street: 1,
+        predraw: 0, draw: 0,
+    };
+
+    /**
+     * Whether a user may see a room's hands: an imported room's are only shown to whoever imported them
+     */
+    static async canViewRoom(roomId: number, userId: number): Promise<boolean> {
+        const result = await query(
+            `SELECT 1 FROM game_room WHERE id = $1 AND (status <> 'imported' OR owner_id = $2)`,
+            [roomId, userId]
+        );
+
+        return result.rows.length > 0;
+    }
+
+    /**
+     * Hands played in a room, newest first
+     */
+    static async listHands(roomId: number, limit: number, offset: number): Promise<HandSummary[]> {
+        const handsResult = await query(
+            `SELECT h.id, h.game_id, h.hand_number, h.board_cards, h.pot_size, h.is_completed, h.start_time
+            FROM hands h
+            JOIN game g ON h.game_id = g.id
+            WHERE g.room_id = $1
+            ORDER BY h.game_id DESC, h.hand_number DESC
+            LIMIT $2 OFFSET $3`,
+            [roomId, limit, offset]
+        );
+
+        if (handsResult.rows.length === 0) {
+            return [];
+        }
+
+        const handIds = handsResult.rows.map((row: any) => row.id);
+        const winnersResult = await query(
+            `SELECT w.hand_id, w.user_id, u.username, SUM(w.amount_won) as amount_won, MIN(w.hand_rank) as hand_rank
+            FROM winners w
+            JOIN users u ON w.user_id = u.id
+            WHERE w.hand_id = ANY($1)
+            GROUP BY w.hand_id, w.user_id, u.username`,
+            [handIds]
+        );
+
+        return handsResult.rows.map((row: any) => ({
+            id: Number(row.id),
+            gameId: Number(row.game_id),
+            handNumber: row.hand_number,
+            boardCards: this.parseCards(row.board_cards),
+            potSize: Number(row.pot_size),
+            isCompleted: row.is_completed,
+            startTime: row.start_time,
+            winners: winnersResult.rows
+                .filter((winner: any) => Number(winner.hand_id) === Number(row.id))
+                .map((winner: any) => ({
+                    userId: Number(winner.user_id),
+                    username: winner.username,
+                    amountWon: Number(winner.amount_won),
+                    handRank: winner.hand_rank
+                }))
+        }));
+    }
+
+    /**
+     * Ids of the completed hands matching a filter, oldest first
+     * roomId limits to one game room, userId to hands that player was dealt into, leaving out other users' imports
+     */
+    static async findHandIds(filter: { roomId?: number; userId?: number; from?: Date; to?: Date }): Promise<number[]> {
+        const conditions = ['h.is_completed = true'];
+        const params: any[] = [];
+
+        if (filter.roomId !== undefined) {
+            params.push(filter.roomId);
+            conditions.push(`g.room_id = $${params.length}`);
+        }
+        if (filter.userId !== undefined) {
+            params.push(filter.userId);
+            conditions.push(`EXISTS (SELECT 1 FROM hand_cards hc WHERE hc.hand_id = h.id AND hc.user_id = $${params.length})`);
+            conditions.push(`(gr.status <> 'imported' OR gr.owner_id = $${params.length})`);
+        }
+        if (filter.from !== undefined) {
+            params.push(filter.from);
+            conditions.push(`h.start_time >= $${params.length}`);
+        }
+        if (filter.to !== undefined) {
+            params.push(filter.to);
+            conditions.push(`h.start_time < $${params.length}`);
+        }
+
+        const result = await query<{ id: string }>(
+            `SELECT h.id
+            FROM hands h
+            JOIN game g ON h.game_id = g.id
+            JOIN game_room gr ON g.room_id = gr.id
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY h.start_time, h.id`,
+            params
+        );
+
+        return result.rows.map(row => Number(row.id));
+    }
+
+    /**
+     * Everything recorded about one hand, with every player's hole cards
+     * Pass the result through redactHoleCards before showing it to a player
+     */
+    static async loadHand(handId: number): Promise<HandRecord | null> {
+        const handResult = await query(
+            `SELECT h.*, g.room_id, gr.betting_structure, gr.variant
+            FROM hands h
+            JOIN game g ON h.game_id = g.id
+            JOIN game_room gr ON g.room_id = gr.id
+            WHERE h.id = $1`,
+            [handId]
+        );
+
+        if (handResult.rows.length === 0) {
+            return null;
+        }
+
+        const hand = handResult.rows[0];
+        const variant = GameVariant.create(hand.variant);
+
+        const [cardsResult, actionsResult, winnersResult] = await Promise.all([
+            // Older hands didn't store the seat, the player's current room position is the best guess
+            query(
+                `SELECT hc.*, COALESCE(hc.seat, rp.position) as seat, u.username
+                FROM hand_cards hc
+                JOIN users u ON hc.user_id = u.id
+                LEFT JOIN room_players rp ON rp.user_id = hc.user_id AND rp.room_id = $2
+                WHERE hc.hand_id = $1
+                ORDER BY COALESCE(hc.seat, rp.position) NULLS LAST, hc.user_id`,
+                [handId, hand.room_id]
+            ),
+            query(
+                `SELECT a.user_id, u.username, a.action_type, a.amount, a.street, a.discarded_cards, a.drawn_cards
+                FROM actions a
+                JOIN users u ON a.user_id = u.id
+                WHERE a.hand_id = $1
+                ORDER BY a.id`,
+                [handId]
+            ),
+            query(
+                `SELECT w.user_id, u.username, w.pot_index, w.run, w.pot_half, w.amount_won, w.hand_rank
+                FROM winners w
+                JOIN users u ON w.user_id = u.id
+                WHERE w.hand_id = $1
+                ORDER BY w.run, w.pot_index, w.pot_half, w.user_id`,
+                [handId]
+            ),
+        ]);
+
+        const winners: HandWinnerRecord[] = winnersResult.rows.map((row: any) => ({
+            userId: Number(row.user_id),
+            username: row.username,
+            potIndex: row.pot_index,
+            run: row.run,
+            half: row.pot_half,
+            amountWon: Number(row.amount_won),
+            handRank: row.hand_rank
+        }));
+
+        return {
+            id: Number(hand.id),
+            gameId: Number(hand.game_id),
+            roomId: Number(hand.room_id),
+            bettingStructure: hand.betting_structure,
+            variant: hand.variant,
+            handNumber: hand.hand_number,
+            dealerSeat: hand.dealer_seat,
+            smallBlindSeat: hand.small_blind_seat,
+            bigBlindSeat: hand.big_blind_seat,
+            boardCards: this.parseCards(hand.board_cards),
+            secondBoardCards: hand.board_cards_2 ? this.parseCards(hand.board_cards_2) : null,
+            potSize: Number(hand.pot_size),
+            isCompleted: hand.is_completed,
+            startTime: hand.start_time,
+            wentToShowdown: winners.some(winner => winner.handRank !== 'Win by fold'),
+            players: cardsResult.rows.map((row: any) => {
+                // Imported hands often don't show them, card_3 and up are only dealt in Omaha, stud and draw
+                const holeCards: string[] | null = row.card_1
+                    ? [row.card_1, row.card_2, row.card_3, row.card_4, row.card_5, row.card_6, row.card_7].filter(Boolean)
+                    : null;
+                return {
+                    userId: Number(row.user_id),
+                    username: row.username,
+                    seat: row.seat,
+                    startingStack: row.starting_stack === null ? null : Number(row.starting_stack),
+                    holeCards,
+                    upCards: holeCards
+                        ? variant.upCards(holeCards.map(card => CardManager.stringToCard(card))).map(card => CardManager.cardToString(card))
+                        : [],
+                    isShown: row.is_shown
+                };
+            }),
+            actions: actionsResult.rows.map((row: any) => {
+                const action: HandActionRecord = {
+                    userId: Number(row.user_id),
+                    username: row.username,
+                    actionType: row.action_type,
+                    amount: Number(row.amount),
+                    street: row.street
+                };
+                if (row.action_type === 'draw') {
+                    const discarded = this.parseCards(row.discarded_cards);
+                    action.draw = { cardCount: discarded.length, discarded, drawn: this.parseCards(row.drawn_cards) };
+                }
+                return action;
+            }),
+            winners
+        };
+    }
+
+    /**
+     * Hide hole cards the viewer isn't entitled to see
+     * Their own cards are always shown, other players' only if they were turned face up; for older hands
+     * that didn't record it, if they were still in at showdown. Which cards others swapped in a draw
+     * stays hidden either way, only how many
+     */
+    static redactHoleCards(hand: HandRecord, viewerId: number): HandRecord {
+        const folded = new Set(
+            hand.actions.filter(action => action.actionType === 'fold').map(action => action.userId)
+        );
+
+        return {
+            ...hand,
+            players: hand.players.map(player => {
+                const isVisible = player.userId === viewerId
+                    || (player.isShown ?? (hand.wentToShowdown && !folded.has(player.userId)));
+                return isVisible ? player : { ...player, holeCards: null };
+            }),
+            actions: hand.actions.map(action => action.draw && action.userId !== viewerId
+                ? { ...action, draw: { cardCount: action.draw.cardCount, discarded: null, drawn: null } }
+                : action)
+        };
+    }
+
+    /**
+     * Rebuild the hand one step at a time: the deal, every action, each new street and the payout
+     * A hand run twice shows the second board after the first, and each run's winners on their own board
+     */
+    static buildReplay(hand: HandRecord): ReplayStep[] {
+        const steps: ReplayStep[] = [];
+        const stacks: Record<number, number | null> = {};
+        const folded: number[] = [];
+        let pot = 0;
+        const variant = GameVariant.create(hand.variant);
+        const streets = variant.streets;
+        let street: Street = streets[0];
+
+        for (const player of hand.players) {
+            stacks[player.userId] = player.startingStack;
+        }
+
+        const pushStep = (description: string, action: HandActionRecord | null, board: string[] = hand.boardCards) => {
+            steps.push({
+                street,
+                boardCards: board.slice(0, this.BOARD_SIZE[street]),
+                pot,
+                stacks: { ...stacks },
+                folded: [...folded],
+                description,
+                action
+            });
+        };
+
+        // Show each street up to (and including) the given one
+        const dealTo = (target: Street) => {
+            const from = streets.indexOf(street);
+            const to = streets.indexOf(target);
+            for (let i = from + 1; i <= to; i++) {
+                street = streets[i];
+                const cards = hand.boardCards.slice(this.BOARD_SIZE[streets[i - 1]], this.BOARD_SIZE[street]);
+                const name = `${street.charAt(0).toUpperCase()}${street.slice(1).replace('_', ' ')}`;
+                // Stud streets deal to the players, only a community seventh street card is on the board
+                pushStep(cards.length > 0 ? `${name}: ${cards.join(' ')}` : name, null);
+            }
+        };
+
+        pushStep(`Hand #${hand.handNumber} dealt`, null);
+
+        for (const action of hand.actions) {
+            if (action.street !== street) {
+                dealTo(action.street);
+            }
+
+            pot += action.amount;
+            const stack = stacks[action.userId];
+            if (stack !== null && stack !== undefined) {
+                stacks[action.userId] = stack - action.amount;
+            }
+            if (action.actionType === 'fold') {
+                folded.push(action.userId);
+            }
+
+            pushStep(this.describeAction(action), action);
+        }
+
+        // Cards dealt with nobody left to act (everyone all-in) still show up street by street
+        // A stud hand that reached a showdown was dealt to seventh street, whatever the board
+        const lastStreet = variant.isStud && hand.wentToShowdown
+            ? streets[streets.length - 1]
+            : streets.find(s => this.BOARD_SIZE[s] === hand.boardCards.length);
+        if (lastStreet && streets.indexOf(lastStreet) > streets.indexOf(street)) {
+            dealTo(lastStreet);
+        }
+
+        // Both runs share the cards that were out when everyone was all-in
+        const secondBoard = hand.secondBoardCards;
+        if (secondBoard) {
+            const shared = secondBoard.findIndex((card, i) => card !== hand.boardCards[i]);
+            pushStep(`Second board: ${secondBoard.slice(shared).join(' ')}`, null, secondBoard);
+        }
+
+        for (const winner of hand.winners) {
+            pot -= winner.amountWon;
+            const stack = stacks[winner.userId];
+            if (stack !== null && stack !== undefined) {
+                stacks[winner.userId] = stack + winner.amountWon;
+            }
+            const rank = winner.handRank === 'Win by fold' ? '' : ` with ${winner.handRank}`;
+            const board = winner.run === 2 ? secondBoard ?? hand.boardCards : hand.boardCards;
+            const run = secondBoard ? ` on the ${winner.run === 2 ? 'second' : 'first'} board` : '';
+            pushStep(`${winner.username} wins ${winner.amountWon}${run}${rank}`, null, board);
+        }
+
+        return steps;
+    }
+
+    /**
+     * One-line description of an action, e.g. "alice raises 60"
+     */
+    private static describeAction(action: HandActionRecord): string {
+        switch (action.actionType) {
+            case 'ante':
+                return `${action.username} posts ante ${action.amount}`;
+            case 'small_blind':
+                return `${action.username} posts small blind ${action.amount}`;
+            case 'big_blind':
+                return `${action.username} posts big blind ${action.amount}`;
+            case 'dead_blind':
+                return `${action.username} posts dead blind ${action.amount}`;
+            case 'bring_in':
+                return `${action.username} brings in for ${action.amount}`;
+            case 'fold':
+                return `${action.username} folds`;
+            case 'check':
+                return `${action.username} checks`;
+            case 'call':
+                return `${action.username} calls ${action.amount}`;
+            case 'bet':
+                return `${action.username} bets ${action.amount}`;
+            case 'raise':
+                return `${action.username} raises ${action.amount}`;
+            case 'all_in':
+                return `${action.username} goes all-in for ${action.amount}`;
+            case 'draw':
+                return action.draw?.cardCount
+                    ? `${action.username} draws ${action.draw.cardCount}`
+                    : `${action.username} stands pat`;
+            default:
+                return `${action.username} ${action.actionType} ${action.amount}`;
+        }
+    }
+
+    /**
+     * Split a space separated card list as stored in hands.board_cards
+     */
+    private static parseCards(cards: string | null): string[] {
+        return cards ? cards.split(' ').filter(card => card.length > 0) : [];
+    }
+}
@@ -0,0 +1,502 @@
+/**
+ * HandHistoryExporter - Writes recorded hands as PokerStars-style hand history text
+ * The format read by external trackers and the hand history importer
+ */
+
+import { CardManager } from './CardManager.js';
+import { GameVariant } from './GameVariant.js';
+import { HandActionRecord, HandHistory, HandPlayerRecord, HandRecord } from './HandHistory.js';
+import { BettingStructureType, Street } from './types.js';
+
+export interface ExportTable {
+    name: string;
+    maxPlayers: number;
+    smallBlind: number;
+    bigBlind: number;
+}
+
+export class HandHistoryExporter {
+    private static readonly STREET_HEADERS: Record<Street, string> = {
+        preflop: '*** HOLE CARDS ***',
+        flop: '*** FLOP ***',
+        turn: '*** TURN ***',
+        river: '*** RIVER ***',
+        third_street: '*** 3rd STREET ***',
+        fourth_street: '*** 4th STREET ***',
+        fifth_street: '*** 5th STREET ***',
+        sixth_street: '*** 6th STREET ***',
+        seventh_street: '*** RIVER ***',
+        predraw: '*** DEALING HANDS ***',
+        draw: '*** FIRST DRAW ***',
+    };
+
+    private static readonly STREET_NAMES: Record<Street, string> = {
+        preflop: 'before Flop',
+        flop: 'on the Flop',
+        turn: 'on the Turn',
+        river: 'on the River',
+        third_street: 'on the 3rd Street',
+        fourth_street: 'on the 4th Street',
+        fifth_street: 'on the 5th Street',
+        sixth_street: 'on the 6th Street',
+        seventh_street: 'on the River',
+        predraw: 'before the Draw',
+        draw: 'after the Draw',
+    };
+
+    private static readonly STRUCTURE_NAMES: Record<BettingStructureType, string> = {
+        no_limit: 'No Limit',
+        pot_limit: 'Pot Limit',
+        fixed_limit: 'Limit',
+    };
+
+    /**
+     * Format several hands as one file, separated the way PokerStars separates them
+     */
+    static formatHands(hands: Array<{ hand: HandRecord; table: ExportTable }>, viewerId: number): string {
+        return hands
+            .map(({ hand, table }) => this.formatHand(hand, table, viewerId))
+            .join('\n\n\n') + '\n';
+    }
+
+    /**
+     * Format one hand as seen by the viewer: their own hole cards, everyone else's only at showdown
+     * Seats are numbered from 1, so room position 0 is Seat 1
+     */
+    static formatHand(hand: HandRecord, table: ExportTable, viewerId: number): string {
+        const visibleHand = HandHistory.redactHoleCards(hand, viewerId);
+        const lines: string[] = [];
+        const blinds = this.getBlinds(visibleHand, table);
+        // Limit games are labelled with their small and big bet rather than the blinds
+        const stakes = visibleHand.bettingStructure === 'fixed_limit'
+            ? `${blinds.bigBlind}/${blinds.bigBlind * 2}`
+            : `${blinds.smallBlind}/${blinds.bigBlind}`;
+        const structureName = this.STRUCTURE_NAMES[visibleHand.bettingStructure] ?? this.STRUCTURE_NAMES.no_limit;
+        const variant = GameVariant.create(visibleHand.variant);
+        const gameName = `${variant.name} ${structureName}`;
+
+        lines.push(
+            `PokerStars Hand #${visibleHand.id}: ${gameName} (${stakes}) - ${this.formatDate(visibleHand.startTime)}`
+        );
+        // Stud is dealt without a button
+        lines.push(variant.isStud
+            ? `Table '${table.name}' ${table.maxPlayers}-max`
+            : `Table '${table.name}' ${table.maxPlayers}-max Seat #${visibleHand.dealerSeat + 1} is the button`);
+
+        for (const player of visibleHand.players) {
+            lines.push(`Seat ${this.seatNumber(player)}: ${player.username} (${player.startingStack ?? 0} in chips)`);
+        }
+
+        // Forced bets come before the hole cards header, everything else after its street header
+        const forcedBets = visibleHand.actions.filter(a => this.isForcedBet(a));
+        const streetActions = visibleHand.actions.filter(a => !this.isForcedBet(a));
+
+        const bets = new Map<number, number>(); // Chips each player has in front of them this street
+        let currentBet = 0;
+
+        for (const action of forcedBets) {
+            const line = this.formatForcedBet(action, forcedBets);
+            if (line) {
+                lines.push(line);
+            }
+            if (action.actionType !== 'ante' && action.actionType !== 'dead_blind') {
+                bets.set(action.userId, (bets.get(action.userId) ?? 0) + action.amount);
+                currentBet = Math.max(currentBet, bets.get(action.userId)!);
+            }
+        }
+
+        const streets = variant.streets;
+        let street: Street = streets[0];
+        const foldedOn = new Map<number, Street>();
+
+        lines.push(this.STREET_HEADERS[street]);
+        const viewer = visibleHand.players.find(p => p.userId === viewerId);
+        // In draw games the viewer's cards change in the draw, and are followed from the hand they were dealt
+        let viewerCards = viewer?.holeCards ? this.dealtCards(visibleHand, viewer.userId, viewer.holeCards) : null;
+        if (variant.isStud) {
+            lines.push(...this.formatStudDeal(visibleHand, street, viewerId, foldedOn));
+        } else if (viewer && viewerCards) {
+            lines.push(`Dealt to ${viewer.username} [${this.formatCards(viewerCards)}]`);
+        }
+
+        // A hand run twice deals each street after the all-in on both boards, "*** FIRST FLOP ***" then "*** SECOND FLOP ***"
+        const secondBoard = visibleHand.secondBoardCards;
+        const sharedCards = secondBoard ? secondBoard.findIndex((card, i) => card !== visibleHand.boardCards[i]) : -1;
+
+        const dealStreet = (next: Street) => {
+            street = next;
+            bets.clear();
+            currentBet = 0;
+
+            if (secondBoard && HandHistory.BOARD_SIZE[next] > sharedCards) {
+                lines.push(this.formatStreetHeader(next, visibleHand.boardCards, 'FIRST '));
+                lines.push(this.formatStreetHeader(next, secondBoard, 'SECOND '));
+            } else {
+                lines.push(this.formatStreetHeader(next, visibleHand.boardCards));
+            }
+
+            if (variant.isStud) {
+                lines.push(...this.formatStudDeal(visibleHand, next, viewerId, foldedOn));
+            }
+        };
+
+        const streetsAfter = (from: Street, to: Street): Street[] =>
+            streets.slice(streets.indexOf(from) + 1, streets.indexOf(to) + 1);
+
+        for (const action of streetActions) {
+            for (const next of streetsAfter(street, action.street)) {
+                dealStreet(next);
+            }
+
+            if (action.draw) {
+                lines.push(...this.formatDraw(action, viewerCards));
+                if (action.userId === viewerId && viewerCards && action.draw.discarded && action.draw.drawn) {
+                    const discarded = action.draw.discarded;
+                    viewerCards = [...viewerCards.filter(card => !discarded.includes(card)), ...action.draw.drawn];
+                }
+                continue;
+            }
+
+            const before = bets.get(action.userId) ?? 0;
+            const after = before + action.amount;
+            bets.set(action.userId, after);
+
+            lines.push(this.formatAction(action, before, after, currentBet));
+
+            if (action.actionType === 'fold') {
+                foldedOn.set(action.userId, street);
+            }
+            currentBet = Math.max(currentBet, after);
+        }
+
+        // Board cards run out after the last action (all-in) still get their headers,
+        // as do the stud streets dealt before a showdown
+        const finalStreet = variant.isStud && visibleHand.wentToShowdown
+            ? streets[streets.length - 1]
+            : streets.find(s => HandHistory.BOARD_SIZE[s] === visibleHand.boardCards.length) ?? street;
+        for (const next of streetsAfter(street, finalStreet)) {
+            dealStreet(next);
+        }
+
+        const handRanks = this.getShowdownRanks(visibleHand, foldedOn, visibleHand.boardCards);
+        const potCount = new Set(visibleHand.winners.map(w => w.potIndex)).size;
+
+        // Each run has its own showdown over its own share of the pots
+        const runs = secondBoard
+            ? [
+                { run: 1, label: 'FIRST ', ranks: handRanks },
+                { run: 2, label: 'SECOND ', ranks: this.getShowdownRanks(visibleHand, foldedOn, secondBoard) },
+            ]
+            : [{ run: 1, label: '', ranks: handRanks }];
+
+        // The summary names the hand a player won with, on whichever board that was
+        const summaryRanks = new Map(handRanks);
+        for (const winner of [...visibleHand.winners].reverse()) {
+            const rank = runs.find(r => r.run === winner.run)?.ranks.get(winner.userId);
+            if (rank) {
+                summaryRanks.set(winner.userId, rank);
+            }
+        }
+
+        for (const { run, label, ranks } of runs) {
+            if (visibleHand.wentToShowdown) {
+                lines.push(`*** ${label}SHOW DOWN ***`);
+                for (const player of visibleHand.players) {
+                    if (foldedOn.has(player.userId)) {
+                        continue;
+                    }
+                    lines.push(player.holeCards
+                        ? `${player.username}: shows [${this.formatCards(player.holeCards)}] (${ranks.get(player.userId)})`
+                        : `${player.username}: mucks hand`);
+                }
+            }
+
+            for (const winner of visibleHand.winners.filter(w => w.run === run)) {
+                const potName = potCount === 1
+                    ? 'pot'
+                    : winner.potIndex === 0 ? 'main pot' : `side pot-${winner.potIndex}`;
+                lines.push(`${winner.username} collected ${winner.amountWon} from ${potName}`);
+            }
+        }
+
+        // A player who won without a showdown can still choose to show
+        if (!visibleHand.wentToShowdown) {
+            for (const player of visibleHand.players) {
+                if (player.userId !== viewerId && player.holeCards && !foldedOn.has(player.userId)) {
+                    lines.push(`${player.username}: shows [${this.formatCards(player.holeCards)}]`);
+                }
+            }
+        }
+
+        lines.push('*** SUMMARY ***');
+        lines.push(`Total pot ${visibleHand.potSize} | Rake 0`);
+        if (secondBoard) {
+            lines.push('Hand was run twice');
+            lines.push(`FIRST Board [${this.formatCards(visibleHand.boardCards)}]`);
+            lines.push(`SECOND Board [${this.formatCards(secondBoard)}]`);
+        } else if (visibleHand.boardCards.length > 0) {
+            lines.push(`Board [${this.formatCards(visibleHand.boardCards)}]`);
+        }
+
+        for (const player of visibleHand.players) {
+            lines.push(this.formatSummarySeat(visibleHand, player, foldedOn, summaryRanks));
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Blinds the hand was played at, taken from the posted blinds when they were posted in full
+     */
+    private static getBlinds(hand: HandRecord, table: ExportTable): { smallBlind: number; bigBlind: number } {
+        const posted = (type: 'small_blind' | 'big_blind') =>
+            hand.actions.find(a => a.actionType === type)?.amount ?? 0;
+
+        return {
+            smallBlind: Math.max(posted('small_blind'), table.smallBlind),
+            bigBlind: Math.max(posted('big_blind'), table.bigBlind),
+        };
+    }
+
+    private static isForcedBet(action: HandActionRecord): boolean {
+        return action.actionType === 'ante'
+            || action.actionType === 'small_blind'
+            || action.actionType === 'big_blind'
+            || action.actionType === 'dead_blind';
+    }
+
+    /**
+     * A returning player's missed big and small blind are one "posts small & big blinds" line,
+     * a dead small blind on its own reads as a small blind posted after the big blind
+     * Null for the part of a combined post already written
+     */
+    private static formatForcedBet(action: HandActionRecord, forcedBets: HandActionRecord[]): string | null {
+        const deadBlind = forcedBets.find(a => a.userId === action.userId && a.actionType === 'dead_blind');
+        const postsBigBlind = forcedBets.some(a => a.userId === action.userId && a.actionType === 'big_blind');
+
+        switch (action.actionType) {
+            case 'ante':
+                return `${action.username}: posts the ante ${action.amount}`;
+            case 'small_blind':
+                return `${action.username}: posts small blind ${action.amount}`;
+            case 'dead_blind':
+                return postsBigBlind ? null : `${action.username}: posts small blind ${action.amount}`;
+            default:
+                return deadBlind
+                    ? `${action.username}: posts small & big blinds ${action.amount + deadBlind.amount}`
+                    : `${action.username}: posts big blind ${action.amount}`;
+        }
+    }
+
+    /**
+     * One betting line; amounts are what the player added, PokerStars raises read "raises X to Y"
+     */
+    private static formatAction(action: HandActionRecord, before: number, after: number, currentBet: number): string {
+        const name = action.username;
+
+        switch (action.actionType) {
+            case 'fold':
+                return `${name}: folds`;
+            case 'check':
+                return `${name}: checks`;
+            case 'call':
+                return `${name}: calls ${action.amount}`;
+            case 'bet':
+                return `${name}: bets ${action.amount}`;
+            case 'bring_in':
+                return `${name}: brings in for ${action.amount}`;
+            case 'raise':
+                return currentBet === 0
+                    ? `${name}: bets ${action.amount}`
+                    : `${name}: raises ${after - currentBet} to ${after}`;
+            case 'all_in':
+                if (after <= currentBet) {
+                    return `${name}: calls ${action.amount} and is all-in`;
+                }
+                return currentBet === 0
+                    ? `${name}: bets ${action.amount} and is all-in`
+                    : `${name}: raises ${after - currentBet} to ${after} and is all-in`;
+            default:
+                return `${name}: ${action.actionType} ${after - before}`;
+        }
+    }
+
+    /**
+     * A draw as PokerStars writes it: "bob: discards 2 cards" or "bob: stands pat", and for the viewer,
+     * whose cards are known, the cards thrown away and a "Dealt to" line with the kept and the new cards
+     */
+    private static formatDraw(action: HandActionRecord, viewerCards: string[] | null): string[] {
+        const { cardCount, discarded, drawn } = action.draw!;
+        if (cardCount === 0) {
+            return [`${action.username}: stands pat`];
+        }
+
+        const count = `${cardCount} card${cardCount === 1 ? '' : 's'}`;
+        if (!discarded || !drawn || !viewerCards) {
+            return [`${action.username}: discards ${count}`];
+        }
+
+        const kept = viewerCards.filter(card => !discarded.includes(card));
+        return [
+            `${action.username}: discards ${count} [${this.formatCards(discarded)}]`,
+            kept.length > 0
+                ? `Dealt to ${action.username} [${this.formatCards(kept)}] [${this.formatCards(drawn)}]`
+                : `Dealt to ${action.username} [${this.formatCards(drawn)}]`,
+        ];
+    }
+
+    /**
+     * The cards a player was dealt, before any draw: the cards drawn are swapped back for the ones thrown away
+     */
+    private static dealtCards(hand: HandRecord, userId: number, holeCards: string[]): string[] {
+        return hand.actions
+            .filter(action => action.userId === userId && action.draw?.discarded && action.draw.drawn)
+            .reverse()
+            .reduce((cards, action) => [
+                ...cards.filter(card => !action.draw!.drawn!.includes(card)),
+                ...action.draw!.discarded!,
+            ], holeCards);
+    }
+
+    /**
+     * Street header with the board so far, e.g. "*** TURN *** [Ah Kd 7c] [2s]"
+     * prefix names the run when the board was run twice
+     * Stud headers have no board, unless seventh street was a community card
+     */
+    private static formatStreetHeader(street: Street, board: string[], prefix: string = ''): string {
+        const header = this.STREET_HEADERS[street].replace('*** ', `*** ${prefix}`);
+        const previous = board.slice(0, street === 'flop' ? 0 : HandHistory.BOARD_SIZE[street] - 1);
+        const added = board.slice(previous.length, HandHistory.BOARD_SIZE[street]);
+
+        if (added.length === 0) {
+            return header;
+        }
+        return previous.length > 0
+            ? `${header} [${this.formatCards(previous)}] [${this.formatCards(added)}]`
+            : `${header} [${this.formatCards(added)}]`;
+    }
+
+    /**
+     * A stud street's "Dealt to" lines for the players still in, e.g. "Dealt to bob [9c] [Kd]"
+     * The viewer sees all their cards, everyone else only their upcards, so nothing of theirs on seventh street
+     */
+    private static formatStudDeal(hand: HandRecord, street: Street, viewerId: number, foldedOn: Map<number, Street>): string[] {
+        const streets = GameVariant.create(hand.variant).streets;
+        const dealt = streets.indexOf(street) + 3; // Cards each player holds once the street is dealt
+        const lines: string[] = [];
+
+        for (const player of hand.players) {
+            if (foldedOn.has(player.userId)) {
+                continue;
+            }
+
+            const isViewer = player.userId === viewerId && player.holeCards !== null;
+            const cards = isViewer ? player.holeCards! : player.upCards;
+            const count = isViewer ? dealt : Math.min(dealt - 2, 4);
+            if (cards.length < count || (!isViewer && dealt === 7)) {
+                continue;
+            }
+
+            const previous = cards.slice(0, street === streets[0] ? 0 : count - 1);
+            const added = cards.slice(previous.length, count);
+            lines.push(previous.length > 0
+                ? `Dealt to ${player.username} [${this.formatCards(previous)}] [${this.formatCards(added)}]`
+                : `Dealt to ${player.username} [${this.formatCards(added)}]`);
+        }
+
+        return lines;
+    }
+
+    /**
+     * Hand names for the players still in at showdown on the given board
+     * Hi/lo hands name both halves, "HI: Flush; LO: 7-5-4-2-A Low", or only the high without a qualifying low
+     */
+    private static getShowdownRanks(hand: HandRecord, foldedOn: Map<number, Street>, boardCards: string[]): Map<number, string> {
+        const ranks = new Map<number, string>();
+        if (!hand.wentToShowdown) {
+            return ranks;
+        }
+
+        const variant = GameVariant.create(hand.variant);
+        const board = boardCards.map(card => CardManager.stringToCard(card));
+        for (const player of hand.players) {
+            // A hand needs five cards, which imported hands cut short may not have
+            if (!foldedOn.has(player.userId) && player.holeCards && player.holeCards.length + board.length >= 5) {
+                const holeCards = player.holeCards.map(card => CardManager.stringToCard(card));
+                const high = variant.evaluateHand(holeCards, board).name;
+                if (!variant.hasLowHalf) {
+                    ranks.set(player.userId, high);
+                    continue;
+                }
+                const low = variant.evaluateLowHand(holeCards, board);
+                ranks.set(player.userId, low ? `HI: ${high}; LO: ${low.name}` : `HI: ${high}`);
+            }
+        }
+        return ranks;
+    }
+
+    private static formatSummarySeat(
+        hand: HandRecord,
+        player: HandPlayerRecord,
+        foldedOn: Map<number, Street>,
+        handRanks: Map<number, string>
+    ): string {
+        // Heads-up the button also posts the small blind; stud has neither
+        let role = '';
+        if (!GameVariant.create(hand.variant).isStud) {
+            role = player.seat === hand.dealerSeat ? ' (button)' : '';
+            if (player.seat === hand.smallBlindSeat) {
+                role += ' (small blind)';
+            } else if (player.seat === hand.bigBlindSeat) {
+                role += ' (big blind)';
+            }
+        }
+
+        const prefix = `Seat ${this.seatNumber(player)}: ${player.username}${role}`;
+        const won = hand.winners
+            .filter(w => w.userId === player.userId)
+            .reduce((total, w) => total + w.amountWon, 0);
+
+        const folded = foldedOn.get(player.userId);
+        if (folded) {
+            return `${prefix} folded ${this.STREET_NAMES[folded]}`;
+        }
+
+        if (!hand.wentToShowdown) {
+            return won > 0 ? `${prefix} collected (${won})` : `${prefix} mucked`;
+        }
+
+        if (!player.holeCards) {
+            return `${prefix} mucked`;
+        }
+
+        const shown = `${prefix} showed [${this.formatCards(player.holeCards)}]`;
+        const rank = handRanks.get(player.userId);
+        return won > 0
+            ? `${shown} and won (${won}) with ${rank}`
+            : `${shown} and lost with ${rank}`;
+    }
+
+    private static seatNumber(player: HandPlayerRecord): number {
+        return (player.seat ?? 0) + 1;
+    }
+
+    /**
+     * Cards go through CardManager so the export uses the engine's own notation
+     */
+    private static formatCards(cards: string[]): string {
+        return cards
+            .map(card => CardManager.cardToString(CardManager.stringToCard(card)))
+            .join(' ');
+    }
+
+    /**
+     * PokerStars date stamp, e.g. "2024/01/31 18:05:09 UTC"
+     */
+    private static formatDate(date: Date): string {
+        const d = new Date(date);
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${d.getUTCFullYear()}/${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())} `
+            + `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} UTC`;
+    }
+}
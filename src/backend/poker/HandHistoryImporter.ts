@@ -0,0 +1,229 @@
+/**
+ * HandHistoryImporter - Stores validated hand histories in the hands, actions, hand_cards and winners tables
+ * Every import gets its own room, so imported hands are reviewed on the usual hand history page
+ * and never mix with hands played here
+ */
+
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../database.js';
+import { CardManager } from './CardManager.js';
+import { GameVariant } from './GameVariant.js';
+import { HandHistory } from './HandHistory.js';
+import { HandHistoryFormat, ParsedHand } from './HandHistoryParser.js';
+import { Street } from './types.js';
+
+export interface ImportSummary {
+    importId: number;
+    roomId: number;
+    handIds: number[];
+}
+
+export class HandHistoryImporter {
+    /**
+     * Store the hands in one transaction, either all of them go in or none do
+     * The file's hero (whose hole cards were dealt face up) is the importing user; every other player gets
+     * an imported account of their own that can't log in, so a file can never put hands on a real player's record
+     */
+    static async importHands(
+        userId: number,
+        format: HandHistoryFormat,
+        hands: ParsedHand[],
+        rejected: number
+    ): Promise<ImportSummary> {
+        if (hands.length === 0) {
+            throw new Error('No valid hands to import');
+        }
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const userIds = await this.resolvePlayers(client, userId, hands);
+            const roomId = await this.createRoom(client, userId, hands);
+
+            const gameResult = await client.query(
+                `INSERT INTO game (room_id, start_time, end_time) VALUES ($1, $2, $3) RETURNING id`,
+                [roomId, hands[0].startTime, hands[hands.length - 1].startTime]
+            );
+            const gameId = Number(gameResult.rows[0].id);
+
+            const handIds: number[] = [];
+            for (const [i, hand] of hands.entries()) {
+                handIds.push(await this.insertHand(client, gameId, i + 1, hand, name => userIds.get(this.playerKey(hand, name))!));
+            }
+
+            const importResult = await client.query(
+                `INSERT INTO hand_imports (user_id, room_id, source_format, hands_imported, hands_rejected)
+                VALUES ($1, $2, $3, $4, $5)
+                RETURNING id`,
+                [userId, roomId, format, hands.length, rejected]
+            );
+
+            await client.query('COMMIT');
+
+            return { importId: Number(importResult.rows[0].id), roomId, handIds };
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * The hero of a hand is keyed separately so their name in the file never matters
+     */
+    private static playerKey(hand: ParsedHand, username: string): string {
+        return username === hand.heroName ? '\0hero' : username;
+    }
+
+    private static async resolvePlayers(
+        client: PoolClient,
+        userId: number,
+        hands: ParsedHand[]
+    ): Promise<Map<string, number>> {
+        const userIds = new Map<string, number>([['\0hero', userId]]);
+        const names = [...new Set(hands.flatMap(hand =>
+            hand.players.map(p => p.username).filter(name => name !== hand.heroName)
+        ))];
+
+        for (const name of names) {
+            // The empty hash never matches a password, and login skips imported accounts anyway
+            const inserted = await client.query(
+                `INSERT INTO users (email, username, password_hash, is_imported)
+                VALUES ($1, $2, '', true)
+                RETURNING id`,
+                [`imported-${crypto.randomUUID()}@imported.invalid`, name.slice(0, 32)]
+            );
+            userIds.set(name, Number(inserted.rows[0].id));
+        }
+
+        return userIds;
+    }
+
+    private static async createRoom(client: PoolClient, userId: number, hands: ParsedHand[]): Promise<number> {
+        const first = hands[0];
+        const maxPlayers = Math.max(...hands.map(hand => hand.maxPlayers ?? hand.players.length));
+
+        const result = await client.query(
+            `INSERT INTO game_room (owner_id, name, max_players, status, small_blind, big_blind, betting_structure, variant)
+            VALUES ($1, $2, $3, 'imported', $4, $5, $6, $7)
+            RETURNING id`,
+            [
+                userId,
+                `Imported: ${first.tableName ?? `${hands.length} hands`}`.slice(0, 64),
+                maxPlayers,
+                first.smallBlind,
+                first.bigBlind,
+                first.bettingStructure,
+                first.variant,
+            ]
+        );
+
+        return Number(result.rows[0].id);
+    }
+
+    /**
+     * One hand with its players, actions and winners
+     * Seats are stored from 0 like room positions, the file numbers them from 1
+     */
+    private static async insertHand(
+        client: PoolClient,
+        gameId: number,
+        handNumber: number,
+        hand: ParsedHand,
+        userIdOf: (username: string) => number
+    ): Promise<number> {
+        const seatOf = (username: string) => hand.players.find(p => p.username === username)!.seat - 1;
+        const posterSeat = (type: 'small_blind' | 'big_blind') => {
+            const post = hand.actions.find(a => a.actionType === type);
+            return post ? seatOf(post.username) : hand.buttonSeat - 1;
+        };
+
+        const streets: Street[] = ['preflop', 'flop', 'turn', 'river'];
+        const lastStreet = streets.find(s => HandHistory.BOARD_SIZE[s] === hand.boardCards.length) ?? 'preflop';
+        const potSize = hand.actions.reduce((total, action) => total + action.amount, 0) - hand.uncalled;
+
+        const handResult = await client.query(
+            `INSERT INTO hands (
+                game_id, hand_number, dealer_seat, small_blind_seat, big_blind_seat,
+                current_street, pot_size, board_cards, is_completed, start_time
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true, $9)
+            RETURNING id`,
+            [
+                gameId,
+                handNumber,
+                hand.buttonSeat - 1,
+                posterSeat('small_blind'),
+                posterSeat('big_blind'),
+                lastStreet,
+                potSize,
+                hand.boardCards.join(' ') || null,
+                hand.startTime,
+            ]
+        );
+        const handId = Number(handResult.rows[0].id);
+
+        for (const player of hand.players) {
+            await client.query(
+                `INSERT INTO hand_cards (hand_id, user_id, card_1, card_2, card_3, card_4, seat, starting_stack)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+                [
+                    handId,
+                    userIdOf(player.username),
+                    player.holeCards?.[0] ?? null,
+                    player.holeCards?.[1] ?? null,
+                    player.holeCards?.[2] ?? null,
+                    player.holeCards?.[3] ?? null,
+                    player.seat - 1,
+                    player.startingStack,
+                ]
+            );
+        }
+
+        for (const action of hand.actions) {
+            await client.query(
+                `INSERT INTO actions (hand_id, user_id, action_type, amount, street)
+                VALUES ($1, $2, $3, $4, $5)`,
+                [handId, userIdOf(action.username), action.actionType, action.amount, action.street]
+            );
+        }
+
+        const folded = new Set(hand.actions.filter(a => a.actionType === 'fold').map(a => a.username));
+        const wentToShowdown = hand.players.filter(p => !folded.has(p.username)).length > 1;
+
+        for (const winner of hand.winners) {
+            await client.query(
+                `INSERT INTO winners (hand_id, user_id, pot_index, amount_won, hand_rank)
+                VALUES ($1, $2, $3, $4, $5)
+                ON CONFLICT (hand_id, user_id, pot_index, run, pot_half) DO UPDATE SET amount_won = winners.amount_won + EXCLUDED.amount_won`,
+                [
+                    handId,
+                    userIdOf(winner.username),
+                    winner.potIndex,
+                    winner.amountWon,
+                    wentToShowdown ? this.handRank(hand, winner.username) : 'Win by fold',
+                ]
+            );
+        }
+
+        return handId;
+    }
+
+    /**
+     * Name of the winner's hand when their cards were shown, the same names the engine records
+     */
+    private static handRank(hand: ParsedHand, username: string): string {
+        const holeCards = hand.players.find(p => p.username === username)?.holeCards;
+        if (!holeCards || hand.boardCards.length < 3) {
+            return 'Unknown';
+        }
+
+        return GameVariant.create(hand.variant).evaluateHand(
+            holeCards.map(card => CardManager.stringToCard(card)),
+            hand.boardCards.map(card => CardManager.stringToCard(card))
+        ).name;
+    }
+}
@@ -0,0 +1,793 @@
+/**
+ * HandHistoryParser - Reads hand histories back in and checks them action by action
+ * Accepts PokerStars hand history text (the format HandHistoryExporter writes) and the JSON
+ * returned by the hand API, and replays every action through the same BettingRules
+ * PokerGameEngine.handlePlayerAction enforces
+ */
+
+import { BettingPlayer, BettingRules, ResolvedAction } from './BettingRules.js';
+import { BettingStructure } from './BettingStructure.js';
+import { CardManager } from './CardManager.js';
+import { GameVariant } from './GameVariant.js';
+import { HandHistory, HandRecord } from './HandHistory.js';
+import { BettingStructureType, GameVariantType, PlayerAction, RecordedActionType, Street } from './types.js';
+
+export type HandHistoryFormat = 'pokerstars' | 'json';
+
+export interface ParsedPlayer {
+    seat: number; // As numbered in the file, from 1
+    username: string;
+    startingStack: number;
+    holeCards: string[] | null;
+}
+
+export interface ParsedAction {
+    username: string;
+    street: Street;
+    actionType: RecordedActionType;
+    amount: number; // Chips the player added to the pot
+    text: string; // The action as written in the source, for error messages
+    line: number | null; // Null for JSON input
+}
+
+export interface ParsedWinner {
+    username: string;
+    potIndex: number;
+    amountWon: number;
+}
+
+export interface ParsedHand {
+    index: number; // Position of the hand in the file, from 0
+    sourceId: string; // Hand number in the source
+    tableName: string | null;
+    maxPlayers: number | null;
+    bettingStructure: BettingStructureType;
+    variant: GameVariantType;
+    smallBlind: number;
+    bigBlind: number; // The small bet in fixed-limit hands
+    startTime: Date;
+    buttonSeat: number;
+    heroName: string | null; // Whose hole cards were dealt face up, i.e. who exported the file
+    players: ParsedPlayer[];
+    boardCards: string[];
+    actions: ParsedAction[];
+    winners: ParsedWinner[];
+    uncalled: number; // Chips returned uncalled, not part of the pot
+    line: number | null;
+}
+
+export interface HandImportError {
+    handIndex: number;
+    sourceId: string | null;
+    line: number | null;
+    message: string;
+}
+
+export interface ParseResult {
+    format: HandHistoryFormat;
+    hands: ParsedHand[]; // Hands that parsed and passed validation
+    errors: HandImportError[]; // At most one per rejected hand: the first problem found
+}
+
+interface SourceLine {
+    text: string;
+    number: number;
+}
+
+// A player's chips while a hand is replayed, the subset of PlayerState the betting rules need
+interface ReplaySeat extends BettingPlayer {
+    username: string;
+}
+
+class HandParseError extends Error {
+    constructor(message: string, readonly line: number | null) {
+        super(message);
+    }
+}
+
+export class HandHistoryParser {
+    private static readonly STREETS: Street[] = ['preflop', 'flop', 'turn', 'river'];
+
+    private static readonly FORCED_BETS: Record<string, RecordedActionType> = {
+        'the ante': 'ante',
+        'small blind': 'small_blind',
+        'big blind': 'big_blind',
+    };
+
+    private static readonly BETTING_STRUCTURES: Record<string, BettingStructureType> = {
+        'No Limit': 'no_limit',
+        'Pot Limit': 'pot_limit',
+        'Limit': 'fixed_limit',
+    };
+
+    private static readonly VARIANTS: Record<string, GameVariantType> = {
+        "Hold'em": 'holdem',
+        'Omaha': 'omaha',
+        'Omaha Hi/Lo': 'omaha_hi_lo',
+        "6+ Hold'em": 'short_deck',
+    };
+
+    private static readonly STREET_HEADERS: Record<string, Street> = {
+        'HOLE CARDS': 'preflop',
+        'FLOP': 'flop',
+        'TURN': 'turn',
+        'RIVER': 'river',
+    };
+
+    /**
+     * Parse and validate a whole file
+     * JSON is recognised by its first character, anything else is read as PokerStars text
+     */
+    static parse(content: string, format?: HandHistoryFormat): ParseResult {
+        const text = content.replace(/^\uFEFF/, '');
+        const detected = format ?? (/^\s*[[{]/.test(text) ? 'json' : 'pokerstars');
+
+        const parsed = detected === 'json' ? this.parseJson(text) : this.parsePokerStars(text);
+        const hands: ParsedHand[] = [];
+        const errors = [...parsed.errors];
+
+        for (const hand of parsed.hands) {
+            const error = this.validate(hand);
+            if (error) {
+                errors.push(error);
+            } else {
+                hands.push(hand);
+            }
+        }
+
+        errors.sort((a, b) => a.handIndex - b.handIndex);
+        return { format: detected, hands, errors };
+    }
+
+    /**
+     * Replay a hand through the betting rules and report the first thing that couldn't have happened
+     * at one of our tables, or null if every action was legal
+     */
+    static validate(hand: ParsedHand): HandImportError | null {
+        const fail = (message: string, line: number | null = hand.line): HandImportError => ({
+            handIndex: hand.index,
+            sourceId: hand.sourceId,
+            line,
+            message,
+        });
+
+        if (hand.players.length < 2) {
+            return fail('A hand needs at least two players');
+        }
+
+        const cardError = this.checkCards(hand);
+        if (cardError) {
+            return fail(cardError);
+        }
+
+        const seats: ReplaySeat[] = hand.players.map(player => ({
+            username: player.username,
+            position: player.seat,
+            stack: player.startingStack,
+            currentBet: 0,
+            hasActed: false,
+            isFolded: false,
+            canRaise: true,
+        }));
+        const byName = new Map(seats.map(seat => [seat.username, seat]));
+
+        const structure = BettingStructure.create(hand.bettingStructure);
+        let street: Street = 'preflop';
+        let round = structure.newRound(street, hand.bigBlind);
+        let pot = 0;
+        let bigBlindSeat: number | null = null;
+        let bettingStarted = false;
+        let handOver = false;
+        let toAct: number | null = null;
+
+        // Mirrors PokerGameEngine.startHand: the bet to call is the table's big blind, first to act sits after it
+        const startBetting = () => {
+            bettingStarted = true;
+            round = {
+                ...structure.newRound('preflop', hand.bigBlind, bigBlindSeat !== null),
+                currentBet: Math.max(bigBlindSeat !== null ? hand.bigBlind : 0, ...seats.map(s => s.currentBet)),
+            };
+            toAct = BettingRules.isRoundComplete(seats, round.currentBet)
+                ? null
+                : BettingRules.nextToAct(seats, bigBlindSeat ?? hand.buttonSeat);
+        };
+
+        // Mirrors PokerGameEngine.advanceToNextStreet
+        const dealStreet = (next: Street) => {
+            street = next;
+            round = structure.newRound(next, hand.bigBlind);
+            for (const seat of seats) {
+                BettingRules.resetForStreet(seat);
+            }
+            toAct = BettingRules.isRoundComplete(seats, round.currentBet)
+                ? null
+                : BettingRules.nextToAct(seats, hand.buttonSeat);
+        };
+
+        for (const action of hand.actions) {
+            const failAction = (message: string) => fail(`${action.text}: ${message}`, action.line);
+
+            const player = byName.get(action.username);
+            if (!player) {
+                return failAction('Player not found');
+            }
+
+            if (this.isForcedBet(action.actionType)) {
+                if (bettingStarted || action.street !== 'preflop') {
+                    return failAction('Forced bets must be posted before the betting starts');
+                }
+                if (action.amount > player.stack) {
+                    return failAction('Posts more than the player has');
+                }
+
+                player.stack -= action.amount;
+                pot += action.amount;
+                if (action.actionType !== 'ante' && action.actionType !== 'dead_blind') {
+                    player.currentBet += action.amount;
+                }
+                // Later big blinds are missed blinds posted by players coming back
+                if (action.actionType === 'big_blind' && bigBlindSeat === null) {
+                    bigBlindSeat = player.position;
+                }
+                continue;
+            }
+
+            if (!bettingStarted) {
+                startBetting();
+            }
+
+            if (handOver) {
+                return failAction('Everyone else had folded, the hand was already over');
+            }
+
+            // Every street up to the one this action was taken on must have finished its betting
+            while (action.street !== street) {
+                if (this.STREETS.indexOf(action.street) < this.STREETS.indexOf(street)) {
+                    return failAction(`Action on the ${action.street} after the ${street} was dealt`);
+                }
+                if (toAct !== null) {
+                    return failAction(`Betting on the ${street} was not complete`);
+                }
+                dealStreet(this.STREETS[this.STREETS.indexOf(street) + 1]);
+            }
+
+            if (toAct === null) {
+                return failAction(`Betting on the ${street} was already complete`);
+            }
+
+            if (player.isFolded) {
+                return failAction('Player is not active');
+            }
+
+            if (player.position !== toAct) {
+                return failAction('Not your turn');
+            }
+
+            let resolved: ResolvedAction;
+            try {
+                resolved = BettingRules.resolveAction(
+                    player,
+                    round,
+                    this.toPlayerAction(action, player),
+                    structure.raiseLimits(round, player, pot)
+                );
+            } catch (error) {
+                return failAction(error instanceof Error ? error.message : String(error));
+            }
+
+            if (resolved.amount !== action.amount) {
+                return failAction(`Puts in ${action.amount} but the rules make it ${resolved.amount}`);
+            }
+
+            player.stack -= resolved.amount;
+            player.currentBet += resolved.amount;
+            pot += resolved.amount;
+            round = BettingRules.applyAction(player, seats, resolved, round);
+
+            if (seats.filter(seat => !seat.isFolded).length <= 1) {
+                handOver = true;
+            } else {
+                toAct = BettingRules.isRoundComplete(seats, round.currentBet)
+                    ? null
+                    : BettingRules.nextToAct(seats, player.position);
+            }
+        }
+
+        if (!bettingStarted) {
+            startBetting();
+        }
+
+        if (!handOver) {
+            // Streets without any action are only possible when nobody was left to bet on them
+            while (toAct === null && this.STREETS.indexOf(street) < this.STREETS.length - 1) {
+                dealStreet(this.STREETS[this.STREETS.indexOf(street) + 1]);
+            }
+            if (toAct !== null) {
+                return fail(`The hand ends before betting on the ${street} was complete`);
+            }
+            // Nobody can bet any more: the board runs out to the river
+            if (hand.boardCards.length !== HandHistory.BOARD_SIZE.river) {
+                return fail('The hand went to showdown without a complete board');
+            }
+        } else if (hand.boardCards.length < HandHistory.BOARD_SIZE[street]) {
+            return fail(`The board is missing cards for the ${street}`);
+        }
+
+        if (hand.winners.length === 0) {
+            return fail('Nobody collected the pot');
+        }
+
+        for (const winner of hand.winners) {
+            const seat = byName.get(winner.username);
+            if (!seat) {
+                return fail(`${winner.username} collected a pot but wasn't dealt in`);
+            }
+            if (seat.isFolded) {
+                return fail(`${winner.username} collected a pot after folding`);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Split PokerStars text into hands and parse each one
+     * A hand that can't be parsed is reported and the rest of the file still goes through
+     */
+    private static parsePokerStars(content: string): { hands: ParsedHand[]; errors: HandImportError[] } {
+        const blocks: SourceLine[][] = [];
+
+        content.split(/\r?\n/).forEach((text, i) => {
+            const line = { text: text.trim(), number: i + 1 };
+            if (/^PokerStars (?:Zoom )?(?:Hand|Game) #/.test(line.text)) {
+                blocks.push([line]);
+            } else if (blocks.length > 0 && line.text.length > 0) {
+                blocks[blocks.length - 1].push(line);
+            }
+        });
+
+        const hands: ParsedHand[] = [];
+        const errors: HandImportError[] = [];
+
+        if (blocks.length === 0) {
+            errors.push({ handIndex: 0, sourceId: null, line: null, message: 'No PokerStars hands found' });
+        }
+
+        blocks.forEach((lines, index) => {
+            try {
+                hands.push(this.parsePokerStarsHand(lines, index));
+            } catch (error) {
+                errors.push({
+                    handIndex: index,
+                    sourceId: lines[0].text.match(/#(\d+)/)?.[1] ?? null,
+                    line: error instanceof HandParseError ? error.line : lines[0].number,
+                    message: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        return { hands, errors };
+    }
+
+    private static parsePokerStarsHand(lines: SourceLine[], index: number): ParsedHand {
+        const [header, ...rest] = lines;
+
+        const headerMatch = header.text.match(
+            /^PokerStars (?:Zoom )?(?:Hand|Game) #(\d+):\s*(.*?)\(([$\d.,]+)\/([$\d.,]+)[^)]*\)\s*-\s*(\d{4}\/\d{2}\/\d{2} \d{1,2}:\d{2}:\d{2})/
+        );
+        if (!headerMatch) {
+            throw new HandParseError('Unrecognised hand header', header.number);
+        }
+        const gameMatch = headerMatch[2].match(/(6\+ Hold'em|Hold'em|Omaha Hi\/Lo|Omaha) (No Limit|Pot Limit|Limit)\b/);
+        if (!gameMatch) {
+            throw new HandParseError("Only Hold'em and Omaha hands can be imported", header.number);
+        }
+
+        const bettingStructure = this.BETTING_STRUCTURES[gameMatch[2]];
+        const stakes = [this.parseChips(headerMatch[3], header.number), this.parseChips(headerMatch[4], header.number)];
+
+        const hand: ParsedHand = {
+            index,
+            sourceId: headerMatch[1],
+            tableName: null,
+            maxPlayers: null,
+            bettingStructure,
+            variant: this.VARIANTS[gameMatch[1]],
+            // Limit headers give the small and big bet; the big blind is the small bet
+            smallBlind: bettingStructure === 'fixed_limit' ? Math.floor(stakes[0] / 2) : stakes[0],
+            bigBlind: bettingStructure === 'fixed_limit' ? stakes[0] : stakes[1],
+            startTime: new Date(`${headerMatch[5].replace(/\//g, '-').replace(' ', 'T')}Z`),
+            buttonSeat: 0,
+            heroName: null,
+            players: [],
+            boardCards: [],
+            actions: [],
+            winners: [],
+            uncalled: 0,
+            line: header.number,
+        };
+
+        if (isNaN(hand.startTime.getTime())) {
+            throw new HandParseError('Invalid date in hand header', header.number);
+        }
+
+        let street: Street = 'preflop';
+        let inSummary = false;
+        const streetBets = new Map<string, number>(); // Chips each player has put in this street
+
+        // Longest names first so "Bob Jr" isn't read as "Bob"
+        const findPlayer = (text: string, separator: string) =>
+            [...hand.players]
+                .sort((a, b) => b.username.length - a.username.length)
+                .find(player => text.startsWith(player.username + separator));
+
+        for (const line of rest) {
+            const text = line.text;
+
+            if (inSummary) {
+                continue;
+            }
+
+            const tableMatch = text.match(/^Table '(.+)' (\d+)-max.*Seat #(\d+) is the button/);
+            if (tableMatch) {
+                hand.tableName = tableMatch[1];
+                hand.maxPlayers = parseInt(tableMatch[2]);
+                hand.buttonSeat = parseInt(tableMatch[3]);
+                continue;
+            }
+
+            const seatMatch = text.match(/^Seat (\d+): (.+?) \(([$\d.,]+) in chips.*\)(.*)$/);
+            if (seatMatch && hand.actions.length === 0 && street === 'preflop') {
+                // Sitting out players weren't dealt in
+                if (!/sitting out/.test(seatMatch[4])) {
+                    hand.players.push({
+                        seat: parseInt(seatMatch[1]),
+                        username: seatMatch[2],
+                        startingStack: this.parseChips(seatMatch[3], line.number),
+                        holeCards: null,
+                    });
+                }
+                continue;
+            }
+
+            const headerMatch = text.match(/^\*\*\* (.+?) \*\*\*(.*)$/);
+            if (headerMatch) {
+                const name = headerMatch[1];
+                if (name === 'SUMMARY') {
+                    inSummary = true;
+                } else if (this.STREET_HEADERS[name]) {
+                    street = this.STREET_HEADERS[name];
+                    // Blinds posted before the hole cards count towards the preflop bet
+                    if (street !== 'preflop') {
+                        streetBets.clear();
+                        hand.boardCards = this.parseCardList(
+                            [...headerMatch[2].matchAll(/\[([^\]]*)\]/g)].map(match => match[1]).join(' '),
+                            line.number
+                        );
+                    }
+                } else if (/^(FIRST|SECOND) /.test(name)) {
+                    // The winners rows can't say which board a pot share was won on
+                    throw new HandParseError("Hands run twice can't be imported", line.number);
+                } else if (name !== 'SHOW DOWN') {
+                    throw new HandParseError(`Unsupported section: ${name}`, line.number);
+                }
+                continue;
+            }
+
+            const dealtMatch = text.match(/^Dealt to (.+?) \[([^\]]+)\]/);
+            if (dealtMatch) {
+                const player = hand.players.find(p => p.username === dealtMatch[1]);
+                if (player) {
+                    player.holeCards = this.parseCardList(dealtMatch[2], line.number);
+                    hand.heroName = player.username;
+                }
+                continue;
+            }
+
+            const uncalledMatch = text.match(/^Uncalled bet \(([$\d.,]+)\) returned to (.+)$/);
+            if (uncalledMatch) {
+                hand.uncalled += this.parseChips(uncalledMatch[1], line.number);
+                continue;
+            }
+
+            const collector = findPlayer(text, ' collected ');
+            if (collector) {
+                const collectedMatch = text.match(/ collected ([$\d.,]+) from (pot|main pot|side pot(?:-(\d+))?)/);
+                if (!collectedMatch) {
+                    throw new HandParseError('Unrecognised collect line', line.number);
+                }
+                hand.winners.push({
+                    username: collector.username,
+                    potIndex: collectedMatch[2] === 'pot' || collectedMatch[2] === 'main pot'
+                        ? 0
+                        : parseInt(collectedMatch[3] ?? '1'),
+                    amountWon: this.parseChips(collectedMatch[1], line.number),
+                });
+                continue;
+            }
+
+            const actor = findPlayer(text, ': ');
+            if (!actor) {
+                // Chat, table joins and the like
+                continue;
+            }
+
+            const description = text.slice(actor.username.length + 2);
+
+            const showsMatch = description.match(/^shows \[([^\]]+)\]/);
+            if (showsMatch) {
+                actor.holeCards = this.parseCardList(showsMatch[1], line.number);
+                continue;
+            }
+
+            // Missed blinds: the big blind is live, whatever is posted on top of it is dead
+            const bothBlindsMatch = description.match(/^posts small & big blinds ([$\d.,]+)/);
+            if (bothBlindsMatch) {
+                const total = this.parseChips(bothBlindsMatch[1], line.number);
+                const live = Math.min(total, hand.bigBlind);
+                streetBets.set(actor.username, (streetBets.get(actor.username) ?? 0) + live);
+                hand.actions.push({ username: actor.username, street, actionType: 'big_blind', amount: live, text, line: line.number });
+                if (total > live) {
+                    hand.actions.push({ username: actor.username, street, actionType: 'dead_blind', amount: total - live, text, line: line.number });
+                }
+                continue;
+            }
+
+            const postMatch = description.match(/^posts (the ante|small blind|big blind) ([$\d.,]+)/);
+            if (postMatch) {
+                let actionType = this.FORCED_BETS[postMatch[1]];
+                const amount = this.parseChips(postMatch[2], line.number);
+                // A small blind posted after the big blind is a returning player's dead small blind
+                if (actionType === 'small_blind' && hand.actions.some(a => a.actionType === 'big_blind')) {
+                    actionType = 'dead_blind';
+                }
+                if (actionType !== 'ante' && actionType !== 'dead_blind') {
+                    streetBets.set(actor.username, (streetBets.get(actor.username) ?? 0) + amount);
+                }
+                hand.actions.push({ username: actor.username, street, actionType, amount, text, line: line.number });
+                continue;
+            }
+
+            const betMatch = description.match(/^(folds|checks|calls|bets|raises)(?: ([$\d.,]+))?(?: to ([$\d.,]+))?( and is all-in)?/);
+            if (!betMatch) {
+                // Mucks, timeouts and other table messages don't move chips
+                continue;
+            }
+
+            const [, verb, amountText, raiseToText, allIn] = betMatch;
+            const before = streetBets.get(actor.username) ?? 0;
+            let amount = 0;
+            let actionType: RecordedActionType;
+
+            switch (verb) {
+                case 'folds':
+                    actionType = 'fold';
+                    break;
+                case 'checks':
+                    actionType = 'check';
+                    break;
+                case 'calls':
+                    actionType = 'call';
+                    amount = this.parseChips(amountText, line.number);
+                    break;
+                case 'bets':
+                    actionType = 'bet';
+                    amount = this.parseChips(amountText, line.number);
+                    break;
+                default:
+                    if (!raiseToText) {
+                        throw new HandParseError('Raise without a "to" amount', line.number);
+                    }
+                    actionType = 'raise';
+                    amount = this.parseChips(raiseToText, line.number) - before;
+                    break;
+            }
+
+            if (allIn) {
+                actionType = 'all_in';
+            }
+
+            streetBets.set(actor.username, before + amount);
+            hand.actions.push({ username: actor.username, street, actionType, amount, text, line: line.number });
+        }
+
+        if (hand.players.length === 0) {
+            throw new HandParseError('No seated players found', header.number);
+        }
+        if (!hand.players.some(player => player.seat === hand.buttonSeat)) {
+            throw new HandParseError('Button seat not found', header.number);
+        }
+
+        return hand;
+    }
+
+    /**
+     * Read hands in the JSON the hand API returns: { hand }, { hands: [...] }, a bare hand or an array of hands
+     */
+    private static parseJson(content: string): { hands: ParsedHand[]; errors: HandImportError[] } {
+        let data: any;
+        try {
+            data = JSON.parse(content);
+        } catch {
+            return { hands: [], errors: [{ handIndex: 0, sourceId: null, line: null, message: 'Invalid JSON' }] };
+        }
+
+        const records: any[] = Array.isArray(data)
+            ? data.map(item => item?.hand ?? item)
+            : Array.isArray(data?.hands) ? data.hands : [data?.hand ?? data];
+
+        const hands: ParsedHand[] = [];
+        const errors: HandImportError[] = [];
+
+        records.forEach((record, index) => {
+            try {
+                hands.push(this.fromHandRecord(record, index));
+            } catch (error) {
+                errors.push({
+                    handIndex: index,
+                    sourceId: record?.id !== undefined ? String(record.id) : null,
+                    line: null,
+                    message: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        return { hands, errors };
+    }
+
+    /**
+     * Our own HandRecord, with seats renumbered from 1 like PokerStars seats
+     */
+    private static fromHandRecord(record: HandRecord, index: number): ParsedHand {
+        if (!record || !Array.isArray(record.players) || !Array.isArray(record.actions) || !Array.isArray(record.winners)) {
+            throw new Error('Not a hand record: players, actions and winners are required');
+        }
+        if (record.secondBoardCards) {
+            throw new Error("Hands run twice can't be imported");
+        }
+        const variant = GameVariant.TYPES.includes(record.variant) ? GameVariant.create(record.variant) : null;
+        if (variant?.isStud) {
+            throw new Error("Stud hands can't be imported");
+        }
+        if (variant?.isDraw) {
+            throw new Error("Draw hands can't be imported");
+        }
+
+        const players: ParsedPlayer[] = record.players.map(player => {
+            if (player.startingStack === null || player.startingStack === undefined) {
+                throw new Error(`Starting stack of ${player.username} is missing`);
+            }
+            return {
+                seat: (player.seat ?? 0) + 1,
+                username: String(player.username),
+                startingStack: this.parseChips(String(player.startingStack), null),
+                holeCards: player.holeCards ? this.parseCardList(player.holeCards.join(' '), null) : null,
+            };
+        });
+
+        const posted = (type: RecordedActionType) =>
+            Math.max(0, ...record.actions.filter(a => a.actionType === type).map(a => Number(a.amount)));
+
+        const startTime = new Date(record.startTime);
+
+        return {
+            index,
+            sourceId: String(record.id ?? index + 1),
+            tableName: null,
+            maxPlayers: null,
+            bettingStructure: BettingStructure.TYPES.includes(record.bettingStructure) ? record.bettingStructure : 'no_limit',
+            variant: variant?.type ?? 'holdem',
+            smallBlind: posted('small_blind'),
+            bigBlind: posted('big_blind'),
+            startTime: isNaN(startTime.getTime()) ? new Date() : startTime,
+            buttonSeat: Number(record.dealerSeat) + 1,
+            heroName: null, // The API shows the viewer's cards and showdown cards alike, so no single hero
+            players,
+            boardCards: this.parseCardList((record.boardCards ?? []).join(' '), null),
+            actions: record.actions.map(action => {
+                if (!this.STREETS.includes(action.street)) {
+                    throw new Error(`Unknown street: ${action.street}`);
+                }
+                return {
+                    username: String(action.username),
+                    street: action.street,
+                    actionType: action.actionType,
+                    amount: this.parseChips(String(action.amount), null),
+                    text: `${action.username} ${action.actionType}${action.amount ? ` ${action.amount}` : ''} on the ${action.street}`,
+                    line: null,
+                };
+            }),
+            winners: record.winners.map(winner => ({
+                username: String(winner.username),
+                potIndex: Number(winner.potIndex) || 0,
+                amountWon: this.parseChips(String(winner.amountWon), null),
+            })),
+            uncalled: 0,
+            line: null,
+        };
+    }
+
+    /**
+     * The action as a player would have submitted it to handlePlayerAction
+     * Recorded bets and raises are chips added, the engine takes the total for the street
+     */
+    private static toPlayerAction(action: ParsedAction, player: ReplaySeat): PlayerAction {
+        switch (action.actionType) {
+            case 'bet':
+            case 'raise':
+                return { type: 'raise', amount: player.currentBet + action.amount };
+            case 'all_in':
+                return { type: 'all_in' };
+            case 'fold':
+            case 'check':
+            case 'call':
+                return { type: action.actionType };
+            default:
+                throw new Error(`Unexpected action ${action.actionType}`);
+        }
+    }
+
+    /**
+     * Every card must be a real card from the game's deck and appear at most once, players hold as many as the game deals
+     */
+    private static checkCards(hand: ParsedHand): string | null {
+        const seen = new Set<string>();
+        const cards = [...hand.boardCards, ...hand.players.flatMap(player => player.holeCards ?? [])];
+
+        const { holeCardCount, isShortDeck } = GameVariant.create(hand.variant);
+        for (const card of cards) {
+            if (seen.has(card)) {
+                return `${card} is dealt twice`;
+            }
+            if (isShortDeck && CardManager.SHORT_DECK_REMOVED_RANKS.includes(CardManager.stringToCard(card).rank)) {
+                return `${card} isn't in a short deck`;
+            }
+            seen.add(card);
+        }
+
+        const badHand = hand.players.find(player => player.holeCards && player.holeCards.length !== holeCardCount);
+        if (badHand) {
+            return `${badHand.username} must hold ${holeCardCount} cards`;
+        }
+
+        if (!Object.values(HandHistory.BOARD_SIZE).includes(hand.boardCards.length)) {
+            return `A board of ${hand.boardCards.length} cards isn't possible`;
+        }
+
+        return null;
+    }
+
+    private static isForcedBet(actionType: RecordedActionType): boolean {
+        return actionType === 'ante'
+            || actionType === 'small_blind'
+            || actionType === 'big_blind'
+            || actionType === 'dead_blind';
+    }
+
+    /**
+     * Cards in the engine's notation, e.g. "Ah Td"
+     */
+    private static parseCardList(text: string, line: number | null): string[] {
+        return text
+            .split(/\s+/)
+            .filter(card => card.length > 0)
+            .map(card => {
+                try {
+                    return CardManager.cardToString(CardManager.stringToCard(card));
+                } catch {
+                    throw new HandParseError(`Invalid card: ${card}`, line);
+                }
+            });
+    }
+
+    /**
+     * Chip amounts are whole numbers at our tables
+     */
+    private static parseChips(text: string | undefined, line: number | null): number {
+        const amount = Number((text ?? '').replace(/[$,]/g, ''));
+        if (!text || !Number.isInteger(amount) || amount < 0) {
+            throw new HandParseError(`Only whole chip amounts can be imported: ${text ?? 'missing amount'}`, line);
+        }
+        return amount;
+    }
+}
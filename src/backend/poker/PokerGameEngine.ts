@@ -1,14 +1,19 @@
 /**
- * PokerGameEngine - Core game engine for Texas Hold'em poker
+ * PokerGameEngine - Core game engine for Texas Hold'em, short deck, Omaha, stud and draw poker
  * Manages game state, turn progression, and hand execution
  */
 
 import { Server } from 'socket.io';
 import { query } from '../database.js';
+import { BankrollManager } from './BankrollManager.js';
+import { BettingRound, BettingRules, LegalActions } from './BettingRules.js';
+import { BettingStructure } from './BettingStructure.js';
+import { BlindSchedule } from './BlindSchedule.js';
 import { CardManager } from './CardManager.js';
-import { HandEvaluator } from './HandEvaluator.js';
-import { PotManager } from './PotManager.js';
-import { Card, PlayerState } from './types.js';
+import { GameVariant, StudVariant } from './GameVariant.js';
+import { PotInfo, PotManager } from './PotManager.js';
+import { Showdown } from './Showdown.js';
+import { Card, ChipLedgerEntryType, PlayerAction, PlayerState, PotHalf, RecordedActionType, Street, TableConfig } from './types.js';
 
 export interface GameState {
     roomId: number;
@@ -20,12 +25,33 @@ export interface GameState {
     smallBlindPosition: number;
     bigBlindPosition: number;
     currentPlayerPosition: number;
-    currentStreet: 'preflop' | 'flop' | 'turn' | 'river';
+    currentStreet: Street;
     pot: number;
     currentBet: number;
+    lastRaiseSize: number; // Last full bet or raise this street, the smallest raise allowed
+    raiseCount: number; // Full bets and raises this street, capped in fixed-limit
+    lastAggressorPosition: number | null; // Last player to bet or raise this street, shows first at showdown
     boardCards: Card[];
+    secondBoardCards: Card[] | null; // Second run of the board when the all-in players agreed to run it twice
     deck: Card[];
     isHandActive: boolean;
+    isRunningOut: boolean; // Everyone is all-in, the rest of the board is dealt without betting
+    isDrawing: boolean; // Draw poker from the end of a betting round until the next street, the current player draws
+    discardPile: Card[]; // Cards thrown away in the draw, shuffled into a new deck when the deck runs out
+    runItTwiceVotes: Record<number, boolean> | null; // Answers to the run-it-twice offer while it is open
+    canShowUserIds: number[]; // Players who mucked or won without a showdown and may still show until the next hand
+    blindLevel: number; // Index into the tournament blind schedule
+    blindLevelStartHand: number; // Hand number the current level started after
+    blindLevelStartTime: number; // Epoch ms the current level started at
+    isWaitingForPlayers: boolean; // Cash game paused until two players can be dealt in
+}
+
+/**
+ * Serializable copy of an engine, stored in game_snapshots so a table survives a restart
+ */
+export interface EngineSnapshot {
+    config: TableConfig;
+    gameState: Omit<GameState, 'players'> & { players: PlayerState[] };
 }
 
 export interface PlayerInfo {
@@ -34,30 +60,68 @@ export interface PlayerInfo {
     position: number;
 }
 
-export interface PlayerAction {
-    type: 'fold' | 'check' | 'call' | 'raise' | 'all_in';
-    amount?: number;
-}
+/**
+ * Table structure used when a room doesn't specify its own
+ */
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+    smallBlind: 10,
+    bigBlind: 20,
+    ante: 0,
+    anteType: 'per_player',
+    startingStack: 1500,
+    turnTimeSeconds: 30,
+    gameMode: 'freezeout',
+    bettingStructure: 'no_limit',
+    variant: 'holdem',
+    blindSchedule: [],
+    minBuyIn: 0,
+    maxBuyIn: 0,
+};
+
+export type { PlayerAction };
 
 /**
  * PokerGameEngine manages the state and logic of a poker game
  */
 export class PokerGameEngine {
+    static readonly RUN_OUT_DELAY_MS = 2000; // Pause between streets dealt without betting
+    static readonly RUN_IT_TWICE_DECISION_SECONDS = 10;
+    static readonly NEXT_HAND_DELAY_MS = 5000; // Time to look at the result, and to show mucked cards
+
     private gameState: GameState;
     private io: Server;
     private timer: NodeJS.Timeout | null = null;
-
-    private readonly TURN_TIME_SECONDS = 30;
-    private readonly SMALL_BLIND = 10;
-    private readonly BIG_BLIND = 20;
-    private readonly STARTING_STACK = 1500;
+    private runOutTimer: NodeJS.Timeout | null = null; // Next street of an all-in run-out, or the end of the run-it-twice offer
+    private nextHandTimer: NodeJS.Timeout | null = null; // Pause between one hand and the next
+    private readonly config: TableConfig;
+    private readonly bettingStructure: BettingStructure; // No-limit, pot-limit or fixed-limit, from the room
+    private readonly variant: GameVariant; // Hold'em, Omaha, stud or draw, from the room
+    private isGameFinished = false;
+    private snapshotVersion = 0;
 
     /**
      * Initialize a new poker game engine
      * Requirements: 7.1, 8.1, 8.3, 8.4
      */
-    constructor(roomId: number, gameId: number, players: PlayerInfo[], io: Server) {
+    constructor(
+        roomId: number,
+        gameId: number,
+        players: PlayerInfo[],
+        io: Server,
+        config: TableConfig = DEFAULT_TABLE_CONFIG
+    ) {
         this.io = io;
+        this.config = { ...DEFAULT_TABLE_CONFIG, ...config };
+        this.bettingStructure = BettingStructure.create(this.config.bettingStructure);
+        this.variant = GameVariant.create(this.config.variant);
+
+        // Tournaments open at the first level of their schedule
+        if (this.config.gameMode === 'tournament' && this.config.blindSchedule.length > 0) {
+            const firstLevel = this.config.blindSchedule[0];
+            this.config.smallBlind = firstLevel.smallBlind;
+            this.config.bigBlind = firstLevel.bigBlind;
+            this.config.ante = firstLevel.ante;
+        }
 
         // Initialize player states with starting stacks
         const playerMap = new Map<number, PlayerState>();
@@ -68,12 +132,18 @@ export class PokerGameEngine {
                 userId: numericUserId,
                 username: player.username,
                 position: Number(player.position),
-                stack: this.STARTING_STACK, // Requirement 7.1: 1500 chips starting stack
+                stack: this.config.startingStack, // Requirement 7.1: starting stack from the table config
                 currentBet: 0,
+                totalContribution: 0,
                 holeCards: null,
                 isActive: true,
                 isFolded: false,
                 hasActed: false,
+                canRaise: true,
+                isSittingOut: false,
+                missedBlinds: 'none',
+                handsPlayed: 0,
+                finishPosition: null,
             });
         }
 
@@ -87,12 +157,14 @@ export class PokerGameEngine {
         const dealerPosition = sortedPositions[dealerIndex];
 
         // Calculate blind positions using actual positions (Requirements 8.3, 8.4)
-        const smallBlindIndex = (dealerIndex + 1) % sortedPositions.length;
-        const bigBlindIndex = (dealerIndex + 2) % sortedPositions.length;
+        // Heads-up the dealer posts the small blind
+        const isHeadsUp = sortedPositions.length === 2;
+        const smallBlindIndex = isHeadsUp ? dealerIndex : (dealerIndex + 1) % sortedPositions.length;
+        const bigBlindIndex = (smallBlindIndex + 1) % sortedPositions.length;
         const smallBlindPosition = sortedPositions[smallBlindIndex];
         const bigBlindPosition = sortedPositions[bigBlindIndex];
 
-        // First to act is after big blind
+        // First to act is after big blind, the dealer when heads-up
         const firstToActIndex = (bigBlindIndex + 1) % sortedPositions.length;
         const currentPlayerPosition = sortedPositions[firstToActIndex];
 
@@ -106,15 +178,172 @@ export class PokerGameEngine {
             smallBlindPosition,
             bigBlindPosition,
             currentPlayerPosition,
-            currentStreet: 'preflop',
+            currentStreet: this.variant.streets[0],
             pot: 0,
             currentBet: 0,
+            lastRaiseSize: this.config.bigBlind,
+            raiseCount: 0,
+            lastAggressorPosition: null,
             boardCards: [],
+            secondBoardCards: null,
             deck: [],
             isHandActive: false,
+            isRunningOut: false,
+            isDrawing: false,
+            discardPile: [],
+            runItTwiceVotes: null,
+            canShowUserIds: [],
+            blindLevel: 0,
+            blindLevelStartHand: 0,
+            blindLevelStartTime: Date.now(),
+            isWaitingForPlayers: false,
+        };
+    }
+
+    /**
+     * Rebuild an engine from its last snapshot
+     * Call resume() afterwards to restart the turn timer or the next hand
+     */
+    static fromSnapshot(snapshot: EngineSnapshot, io: Server, version: number): PokerGameEngine {
+        const { players, ...state } = snapshot.gameState;
+        const engine = new PokerGameEngine(state.roomId, state.gameId, [], io, snapshot.config);
+
+        // The stored config carries the blind level reached, not the opening one
+        Object.assign(engine.config, snapshot.config);
+        // Snapshots taken before raise tracking lack the raise state, the big blind is a safe minimum
+        // Older snapshots have no run-out, showdown or draw state either, nothing was in progress
+        engine.gameState = {
+            ...state,
+            lastRaiseSize: state.lastRaiseSize ?? snapshot.config.bigBlind,
+            raiseCount: state.raiseCount ?? 0,
+            secondBoardCards: state.secondBoardCards ?? null,
+            isRunningOut: state.isRunningOut ?? false,
+            isDrawing: state.isDrawing ?? false,
+            discardPile: state.discardPile ?? [],
+            runItTwiceVotes: state.runItTwiceVotes ?? null,
+            lastAggressorPosition: state.lastAggressorPosition ?? null,
+            canShowUserIds: state.canShowUserIds ?? [],
+            players: new Map(players.map(player => [player.userId, {
+                ...player,
+                canRaise: player.canRaise ?? true,
+                missedBlinds: player.missedBlinds ?? 'none',
+            }])),
+        };
+        engine.snapshotVersion = version;
+
+        return engine;
+    }
+
+    /**
+     * Serializable copy of the engine state, deck order included
+     */
+    toSnapshot(): EngineSnapshot {
+        return {
+            config: { ...this.config },
+            gameState: {
+                ...this.gameState,
+                players: Array.from(this.gameState.players.values()),
+            },
         };
     }
 
+    /**
+     * Pick up a restored game where it stopped
+     * A hand in progress gets a fresh turn timer for the player to act, or carries on running out the board;
+     * otherwise the next hand is dealt
+     */
+    async resume(): Promise<void> {
+        if (this.gameState.isRunningOut) {
+            // An open run-it-twice offer starts its clock again, otherwise the run-out carries on
+            this.scheduleRunOut(this.gameState.runItTwiceVotes
+                ? () => this.decideRunItTwice()
+                : () => this.advanceToNextStreet());
+        } else if (this.gameState.isHandActive) {
+            this.startTurnTimer();
+        } else if (!this.gameState.isWaitingForPlayers) {
+            this.scheduleNextHand();
+        }
+    }
+
+    /**
+     * Bring a (re)connecting player up to date with the table
+     * Only that player's own hole cards are included
+     */
+    syncPlayer(userId: number): void {
+        const player = this.gameState.players.get(Number(userId));
+        const currentPlayer = this.gameState.isHandActive && !this.gameState.isRunningOut
+            ? this.getPlayerAtPosition(this.gameState.currentPlayerPosition)
+            : undefined;
+
+        this.io.to(`user:${Number(userId)}`).emit('game:state:sync', {
+            handNumber: this.gameState.handNumber,
+            isHandActive: this.gameState.isHandActive,
+            street: this.gameState.currentStreet,
+            boardCards: this.gameState.boardCards,
+            secondBoardCards: this.gameState.secondBoardCards,
+            pot: this.gameState.pot,
+            currentBet: this.gameState.currentBet,
+            dealerPosition: this.gameState.dealerPosition,
+            players: Array.from(this.gameState.players.values()).map(p => ({
+                userId: p.userId,
+                username: p.username,
+                stack: p.stack,
+                currentBet: p.currentBet,
+                isFolded: p.isFolded,
+                isSittingOut: p.isSittingOut
+            })),
+            holeCards: player?.holeCards ?? null,
+            upCards: this.variant.isStud ? this.getUpCards() : null,
+            bettingStructure: this.config.bettingStructure,
+            variant: this.config.variant,
+            turn: currentPlayer && !this.gameState.isDrawing ? {
+                userId: currentPlayer.userId,
+                playerBet: currentPlayer.currentBet,
+                legalActions: this.getLegalActions(currentPlayer)
+            } : null,
+            draw: currentPlayer && this.gameState.isDrawing ? {
+                userId: currentPlayer.userId,
+                maxDiscards: this.variant.holeCardCount
+            } : null,
+            // Hands are face up once the board is being run out
+            runOut: this.gameState.isRunningOut ? {
+                players: this.getShowdownHands(),
+                isRunItTwiceOpen: this.gameState.runItTwiceVotes !== null
+            } : null
+        });
+    }
+
+    /**
+     * Store the current state so the game can be rebuilt after a crash
+     * Versioned so an older write finishing late can't overwrite a newer one
+     */
+    private async saveSnapshot(): Promise<void> {
+        if (this.isGameFinished) {
+            return;
+        }
+
+        this.snapshotVersion++;
+
+        try {
+            await query(
+                `INSERT INTO game_snapshots (game_id, room_id, version, state, updated_at)
+                VALUES ($1, $2, $3, $4, NOW())
+                ON CONFLICT (game_id) DO UPDATE
+                SET version = EXCLUDED.version, state = EXCLUDED.state, updated_at = EXCLUDED.updated_at
+                WHERE game_snapshots.version < EXCLUDED.version`,
+                [
+                    this.gameState.gameId,
+                    this.gameState.roomId,
+                    this.snapshotVersion,
+                    JSON.stringify(this.toSnapshot()),
+                ]
+            );
+        } catch (error) {
+            // Losing a snapshot only matters if the server also crashes, so keep the game going
+            console.error('[PokerGameEngine] Failed to save snapshot:', error);
+        }
+    }
+
     /**
      * Get the current game state
      */
@@ -122,57 +351,148 @@ export class PokerGameEngine {
         return this.gameState;
     }
 
+    /**
+     * Get the table structure (blinds, ante, stack, turn time) this game was created with
+     */
+    getTableConfig(): TableConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Whether the game has ended and its stacks have been paid out
+     */
+    isFinished(): boolean {
+        return this.isGameFinished;
+    }
+
     /**
      * Start a new hand
      * Requirements: 1.1, 1.2, 4.1, 5.1, 10.1
      */
     async startHand(): Promise<void> {
+        if (this.isGameFinished) {
+            return;
+        }
+
         // Increment hand number
         this.gameState.handNumber++;
         this.gameState.isHandActive = true;
-        this.gameState.currentStreet = 'preflop';
+        this.gameState.currentStreet = this.variant.streets[0];
         this.gameState.boardCards = [];
+        this.gameState.secondBoardCards = null;
+        this.gameState.isRunningOut = false;
+        this.gameState.isDrawing = false;
+        this.gameState.discardPile = [];
+        this.gameState.runItTwiceVotes = null;
+        this.gameState.canShowUserIds = [];
         this.gameState.pot = 0;
-        this.gameState.currentBet = this.BIG_BLIND;
+        this.setBettingRound(this.bettingStructure.newRound(this.gameState.currentStreet, this.config.bigBlind, this.postsBlinds()));
+        this.gameState.lastAggressorPosition = null;
 
         // Reset all players for new hand
         for (const player of this.gameState.players.values()) {
-            player.currentBet = 0;
+            BettingRules.resetForStreet(player);
+            player.totalContribution = 0;
             player.holeCards = null;
             player.isFolded = false;
-            player.hasActed = false;
-            player.isActive = player.stack > 0; // Only active if they have chips
+            player.isActive = player.stack > 0 && !player.isSittingOut; // Only active if they have chips and are seated
+            if (player.isActive) {
+                player.handsPlayed++;
+            }
         }
 
         // Create and shuffle deck (Requirement 1.1)
-        this.gameState.deck = CardManager.shuffleDeck(CardManager.createDeck());
+        this.gameState.deck = CardManager.shuffleDeck(this.variant.createDeck());
 
-        // Post blinds (Requirement 4.1)
-        const smallBlindPlayer = this.getPlayerAtPosition(this.gameState.smallBlindPosition);
-        const bigBlindPlayer = this.getPlayerAtPosition(this.gameState.bigBlindPosition);
+        // Stacks before any forced bets, kept with the hole cards for hand history
+        const startingStacks = new Map<number, number>();
+        for (const player of this.gameState.players.values()) {
+            startingStacks.set(player.userId, player.stack);
+        }
+
+        // Forced bets are persisted as actions once the hand row exists
+        const forcedBets: Array<{ userId: number; type: RecordedActionType; amount: number }> = [];
+
+        // Collect antes before the blinds - antes are dead money and don't count towards the bet to call
+        // Like any chips committed they count towards the player's contribution, so side pots include them
+        // Without a big blind to post it, a big blind ante is paid by everyone
+        if (this.config.ante > 0 && (this.config.anteType !== 'big_blind' || !this.postsBlinds())) {
+            for (const player of this.gameState.players.values()) {
+                if (player.isActive) {
+                    const ante = Math.min(this.config.ante, player.stack);
+                    this.commitChips(player, ante, false);
+                    forcedBets.push({ userId: player.userId, type: 'ante', amount: ante });
+                }
+            }
+        }
+
+        // Post blinds (Requirement 4.1), unless the table plays with antes only or a bring-in
+        const smallBlindPlayer = this.postsBlinds() ? this.getPlayerAtPosition(this.gameState.smallBlindPosition) : null;
+        const bigBlindPlayer = this.postsBlinds() ? this.getPlayerAtPosition(this.gameState.bigBlindPosition) : null;
+
+        if (smallBlindPlayer?.isActive) {
+            const smallBlind = Math.min(this.config.smallBlind, smallBlindPlayer.stack);
+            this.commitChips(smallBlindPlayer, smallBlind);
+            forcedBets.push({ userId: smallBlindPlayer.userId, type: 'small_blind', amount: smallBlind });
+        }
+
+        if (bigBlindPlayer?.isActive) {
+            const bigBlind = Math.min(this.config.bigBlind, bigBlindPlayer.stack);
+            this.commitChips(bigBlindPlayer, bigBlind);
+            forcedBets.push({ userId: bigBlindPlayer.userId, type: 'big_blind', amount: bigBlind });
 
-        if (smallBlindPlayer) {
-            const smallBlindAmount = Math.min(this.SMALL_BLIND, smallBlindPlayer.stack);
-            smallBlindPlayer.stack -= smallBlindAmount;
-            smallBlindPlayer.currentBet = smallBlindAmount;
-            this.gameState.pot += smallBlindAmount;
+            // A big blind ante covers the whole table; a short big blind's chips go to the blind first
+            const ante = this.config.anteType === 'big_blind' ? Math.min(this.config.ante, bigBlindPlayer.stack) : 0;
+            if (ante > 0) {
+                this.commitChips(bigBlindPlayer, ante, false);
+                forcedBets.push({ userId: bigBlindPlayer.userId, type: 'ante', amount: ante });
+            }
         }
 
-        if (bigBlindPlayer) {
-            const bigBlindAmount = Math.min(this.BIG_BLIND, bigBlindPlayer.stack);
-            bigBlindPlayer.stack -= bigBlindAmount;
-            bigBlindPlayer.currentBet = bigBlindAmount;
-            this.gameState.pot += bigBlindAmount;
+        // Players back from sitting out post what they missed: the big blind live, the small blind dead
+        // Coming back in one of the blinds settles it, and there is nothing to make up without blinds
+        for (const player of this.gameState.players.values()) {
+            if (!player.isActive || player.missedBlinds === 'none') {
+                continue;
+            }
+
+            if (this.postsBlinds() && player !== smallBlindPlayer && player !== bigBlindPlayer) {
+                if (player.missedBlinds === 'both') {
+                    const bigBlind = Math.min(this.config.bigBlind, player.stack);
+                    this.commitChips(player, bigBlind);
+                    forcedBets.push({ userId: player.userId, type: 'big_blind', amount: bigBlind });
+                }
+
+                const deadBlind = Math.min(this.config.smallBlind, player.stack);
+                if (deadBlind > 0) {
+                    this.commitChips(player, deadBlind, false);
+                    forcedBets.push({ userId: player.userId, type: 'dead_blind', amount: deadBlind });
+                }
+            }
+
+            player.missedBlinds = 'none';
         }
 
-        // Deal hole cards to each active player (Requirement 1.2)
+        // Deal hole cards to each active player (Requirement 1.2), in stud only third street's three
         for (const player of this.gameState.players.values()) {
             if (player.isActive && !player.isFolded) {
-                const cards = CardManager.dealCards(this.gameState.deck, 2);
-                player.holeCards = [cards[0], cards[1]];
+                player.holeCards = CardManager.dealCards(this.gameState.deck, this.variant.cardsDealtOn(this.gameState.currentStreet));
             }
         }
 
+        // In stud the worst upcard opens the betting with the bring-in, a bet short of a full one
+        // Posting it is their action, when everyone just calls the bring-in the street is over
+        const bringInPlayer = this.variant instanceof StudVariant
+            ? this.variant.bringInPlayer(this.getActivePlayers().filter(p => p.stack > 0 && p.holeCards))
+            : null;
+        if (bringInPlayer) {
+            const bringIn = Math.min(this.config.smallBlind, bringInPlayer.stack);
+            this.commitChips(bringInPlayer, bringIn);
+            bringInPlayer.hasActed = true;
+            this.gameState.currentBet = Math.max(this.gameState.currentBet, bringIn);
+            forcedBets.push({ userId: bringInPlayer.userId, type: 'bring_in', amount: bringIn });
+        }
+
         // Persist hand to database (Requirement 10.1)
         const handResult = await query<{ id: number }>(
             `INSERT INTO hands (
@@ -196,25 +516,41 @@ export class PokerGameEngine {
         // Persist hole cards to database (hand_cards table)
         for (const player of this.gameState.players.values()) {
             if (player.holeCards) {
+                const cards = player.holeCards.map(card => CardManager.cardToString(card));
                 await query(
-                    `INSERT INTO hand_cards (hand_id, user_id, card_1, card_2)
-                    VALUES ($1, $2, $3, $4)`,
+                    `INSERT INTO hand_cards (hand_id, user_id, card_1, card_2, card_3, card_4, card_5, seat, starting_stack)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
                     [
                         this.gameState.handId,
                         player.userId,
-                        CardManager.cardToString(player.holeCards[0]),
-                        CardManager.cardToString(player.holeCards[1]),
+                        cards[0],
+                        cards[1],
+                        cards[2] ?? null, // Omaha, stud and draw only
+                        cards[3] ?? null,
+                        cards[4] ?? null, // Draw only
+                        player.position,
+                        startingStacks.get(player.userId),
                     ]
                 );
             }
         }
 
-        // Set first player to act (player after big blind)
+        for (const bet of forcedBets) {
+            await query(
+                `INSERT INTO actions (hand_id, user_id, action_type, amount, street)
+                VALUES ($1, $2, $3, $4, $5)`,
+                [this.gameState.handId, bet.userId, bet.type, bet.amount, this.gameState.currentStreet]
+            );
+        }
+
+        // Set first player to act (player after big blind, the dealer when heads-up)
+        // Without blinds the first player after the button opens, as on the later streets, and in stud
+        // the player after the bring-in
         const activePlayers = this.getActivePlayers();
-        const sortedPositions = activePlayers.map(p => p.position).sort((a, b) => a - b);
-        const bigBlindIndex = sortedPositions.indexOf(this.gameState.bigBlindPosition);
-        const firstToActIndex = (bigBlindIndex + 1) % sortedPositions.length;
-        this.gameState.currentPlayerPosition = sortedPositions[firstToActIndex];
+        const openerAfter = bringInPlayer?.position
+            ?? (this.postsBlinds() ? this.gameState.bigBlindPosition : this.gameState.dealerPosition);
+        this.gameState.currentPlayerPosition =
+            BettingRules.nextToAct(activePlayers, openerAfter) ?? this.gameState.bigBlindPosition;
 
         console.log('[PokerGameEngine] Hand started:', {
             handNumber: this.gameState.handNumber,
@@ -229,26 +565,41 @@ export class PokerGameEngine {
         // Broadcast hand started event
         this.io.to(`room:${this.gameState.roomId}`).emit('game:hand:started', {
             handNumber: this.gameState.handNumber,
+            street: this.gameState.currentStreet,
             dealerPosition: this.gameState.dealerPosition,
             pot: this.gameState.pot,
+            anteType: this.config.anteType,
+            antes: forcedBets
+                .filter(bet => bet.type === 'ante')
+                .map(({ userId, amount }) => ({ userId, amount })),
+            ...(this.variant.isStud ? {
+                bringIn: bringInPlayer ? { userId: bringInPlayer.userId, amount: bringInPlayer.currentBet } : null,
+                upCards: this.getUpCards(),
+            } : {}),
         });
 
-        // Send private hole cards to each player
+        // Send private hole cards to each player (Requirement 1.5)
         for (const player of this.gameState.players.values()) {
             if (player.holeCards) {
-                console.log('[PokerGameEngine] Dealing cards to user:', player.userId, player.holeCards);
-                // Note: In a real implementation, we'd need to map userId to socket ID
-                // For now, we'll emit to the room with userId filter on client side
-                this.io.to(`room:${this.gameState.roomId}`).emit('game:cards:dealt', {
+                console.log('[PokerGameEngine] Dealing cards to user:', player.userId);
+                // Only the owner's sockets are in their user channel
+                this.io.to(`user:${player.userId}`).emit('game:cards:dealt', {
                     userId: player.userId,
                     holeCards: player.holeCards,
                 });
             }
         }
 
-        console.log('[PokerGameEngine] Starting turn timer for position:', this.gameState.currentPlayerPosition);
-        // Start turn timer for first player (Requirement 3.1)
-        this.startTurnTimer();
+        if (BettingRules.isRoundComplete(activePlayers, this.gameState.currentBet)) {
+            // The blinds put everyone all-in, nobody has a decision to make
+            await this.advanceToNextStreet();
+        } else {
+            console.log('[PokerGameEngine] Starting turn timer for position:', this.gameState.currentPlayerPosition);
+            // Start turn timer for first player (Requirement 3.1)
+            this.startTurnTimer();
+        }
+
+        await this.saveSnapshot();
     }
 
     /**
@@ -263,6 +614,46 @@ export class PokerGameEngine {
         return undefined;
     }
 
+    /**
+     * Betting state of the current street as the betting rules see it
+     */
+    private getBettingRound(): BettingRound {
+        return {
+            currentBet: this.gameState.currentBet,
+            lastRaiseSize: this.gameState.lastRaiseSize,
+            raiseCount: this.gameState.raiseCount,
+        };
+    }
+
+    private setBettingRound(round: BettingRound): void {
+        this.gameState.currentBet = round.currentBet;
+        this.gameState.lastRaiseSize = round.lastRaiseSize;
+        this.gameState.raiseCount = round.raiseCount;
+    }
+
+    /**
+     * What the player can do right now under the table's betting structure
+     * The same check handlePlayerAction applies, sent with the turn so the client only offers legal actions
+     */
+    private getLegalActions(player: PlayerState): LegalActions {
+        const round = this.getBettingRound();
+        return BettingRules.legalActions(player, round, this.bettingStructure.raiseLimits(round, player, this.gameState.pot));
+    }
+
+    /**
+     * Move chips from a player's stack into the pot
+     * Records them against the per-hand contribution ledger and, unless they are dead money
+     * such as an ante, against the current street bet
+     */
+    private commitChips(player: PlayerState, amount: number, countsTowardsBet: boolean = true): void {
+        player.stack -= amount;
+        if (countsTowardsBet) {
+            player.currentBet += amount;
+        }
+        player.totalContribution += amount;
+        this.gameState.pot += amount;
+    }
+
     /**
      * Get all active (non-folded, non-eliminated) players
      */
@@ -288,6 +679,14 @@ export class PokerGameEngine {
             throw new Error('No active hand');
         }
 
+        if (this.gameState.isRunningOut) {
+            throw new Error('Everyone is all-in, the board is being run out');
+        }
+
+        if (this.gameState.isDrawing) {
+            throw new Error('Wait for the draw to finish');
+        }
+
         const player = this.gameState.players.get(numericUserId);
         if (!player) {
             console.error(`[PokerGameEngine] Player not found! userId: ${numericUserId}, available keys:`, Array.from(this.gameState.players.keys()));
@@ -305,101 +704,28 @@ export class PokerGameEngine {
             throw new Error('Player is not active');
         }
 
+        // Checked against the legal actions sent with game:turn:started, the same rules the hand history
+        // importer replays recorded actions against (Requirements 2.2-2.6)
+        // Resolved before the timer stops so an illegal action leaves the player's clock running
+        const round = this.getBettingRound();
+        const limits = this.bettingStructure.raiseLimits(round, player, this.gameState.pot);
+        const resolved = BettingRules.resolveAction(player, round, action, limits);
+        const actionAmount = resolved.amount;
+        const actionType = resolved.type;
+
         // Stop the turn timer (Requirement 3.4)
         this.stopTurnTimer();
 
-        let actionAmount = 0;
-        let actionType = action.type;
-
-        // Process action based on type
-        switch (action.type) {
-            case 'fold':
-                // Requirement 2.2: Mark player as folded
-                player.isFolded = true;
-                player.hasActed = true;
-                break;
-
-            case 'check':
-                // Requirement 2.3: Check doesn't change pot
-                // Validate player can check (no bet to call)
-                if (player.currentBet < this.gameState.currentBet) {
-                    throw new Error('Cannot check, must call or fold');
-                }
-                player.hasActed = true;
-                break;
-
-            case 'call':
-                // Requirement 2.4: Call matches current bet
-                const callAmount = this.gameState.currentBet - player.currentBet;
-
-                if (callAmount > player.stack) {
-                    // Not enough chips, convert to all-in
-                    actionAmount = player.stack;
-                    actionType = 'all_in';
-                } else {
-                    actionAmount = callAmount;
-                }
-
-                player.stack -= actionAmount;
-                player.currentBet += actionAmount;
-                this.gameState.pot += actionAmount;
-                player.hasActed = true;
-                break;
-
-            case 'raise':
-                // Requirement 2.5: Validate raise amount
-                if (!action.amount || action.amount < this.gameState.currentBet * 2) {
-                    throw new Error('Raise amount too low');
-                }
-
-                const raiseAmount = action.amount - player.currentBet;
-
-                if (raiseAmount > player.stack) {
-                    // Not enough chips, convert to all-in
-                    actionAmount = player.stack;
-                    actionType = 'all_in';
-                    player.stack = 0;
-                    player.currentBet += actionAmount;
-                } else {
-                    actionAmount = raiseAmount;
-                    player.stack -= actionAmount;
-                    player.currentBet = action.amount;
-                    this.gameState.currentBet = action.amount;
-                }
-
-                this.gameState.pot += actionAmount;
-                player.hasActed = true;
-
-                // Reset hasActed for other players since there's a new bet
-                for (const p of this.gameState.players.values()) {
-                    if (p.userId !== userId && !p.isFolded) {
-                        p.hasActed = false;
-                    }
-                }
-                break;
-
-            case 'all_in':
-                // Requirement 2.6: All-in moves all chips to pot
-                actionAmount = player.stack;
-                player.currentBet += actionAmount;
-                this.gameState.pot += actionAmount;
-                player.stack = 0; // Stack becomes zero
-                player.hasActed = true;
-
-                // If all-in is a raise, reset other players' hasActed
-                if (player.currentBet > this.gameState.currentBet) {
-                    this.gameState.currentBet = player.currentBet;
-                    for (const p of this.gameState.players.values()) {
-                        if (p.userId !== userId && !p.isFolded && p.stack > 0) {
-                            p.hasActed = false;
-                        }
-                    }
-                }
-                break;
-
-            default:
-                throw new Error(`Unknown action type: ${action.type}`);
+        this.commitChips(player, actionAmount);
+        if (resolved.newCurrentBet > round.currentBet) {
+            this.gameState.lastAggressorPosition = player.position;
         }
+        this.setBettingRound(BettingRules.applyAction(
+            player,
+            Array.from(this.gameState.players.values()),
+            resolved,
+            this.getBettingRound()
+        ));
 
         // Persist action to database (Requirement 2.7)
         await query(
@@ -431,6 +757,8 @@ export class PokerGameEngine {
 
         // Advance to next player (Requirement 2.1)
         await this.advanceToNextPlayer();
+
+        await this.saveSnapshot();
     }
 
     /**
@@ -441,7 +769,7 @@ export class PokerGameEngine {
         // Clear any existing timer
         this.stopTurnTimer();
 
-        let timeRemaining = this.TURN_TIME_SECONDS;
+        let timeRemaining = this.config.turnTimeSeconds;
         const currentPlayer = this.getPlayerAtPosition(this.gameState.currentPlayerPosition);
 
         if (!currentPlayer) {
@@ -451,13 +779,23 @@ export class PokerGameEngine {
 
         console.log('[PokerGameEngine] Starting turn timer for user:', currentPlayer.userId, 'at position:', currentPlayer.position);
 
-        // Emit initial turn started event (Requirement 3.1)
-        this.io.to(`room:${this.gameState.roomId}`).emit('game:turn:started', {
-            userId: currentPlayer.userId,
-            timeRemaining,
-            currentBet: this.gameState.currentBet,
-            playerBet: currentPlayer.currentBet,
-        });
+        // Emit initial turn started event (Requirement 3.1), in the draw the player's turn to swap cards
+        if (this.gameState.isDrawing) {
+            this.io.to(`room:${this.gameState.roomId}`).emit('game:draw:turn', {
+                userId: currentPlayer.userId,
+                timeRemaining,
+                maxDiscards: this.variant.holeCardCount,
+            });
+        } else {
+            this.io.to(`room:${this.gameState.roomId}`).emit('game:turn:started', {
+                userId: currentPlayer.userId,
+                timeRemaining,
+                currentBet: this.gameState.currentBet,
+                playerBet: currentPlayer.currentBet,
+                bettingStructure: this.config.bettingStructure,
+                legalActions: this.getLegalActions(currentPlayer),
+            });
+        }
 
         // Start interval to emit tick events every second (Requirement 3.2)
         this.timer = setInterval(() => {
@@ -488,12 +826,17 @@ export class PokerGameEngine {
 
     /**
      * Handle timeout when player doesn't act in time
-     * Requirement 3.3: Auto-fold player when timer expires
+     * Requirement 3.3: Auto-fold player when timer expires, a player who runs out of time to draw stands pat
      */
     private async handleTimeout(userId: number): Promise<void> {
         this.stopTurnTimer();
 
         try {
+            if (this.gameState.isDrawing) {
+                await this.handleDraw(userId, []);
+                return;
+            }
+
             // Auto-fold the player - handlePlayerAction will call advanceToNextPlayer
             await this.handlePlayerAction(userId, { type: 'fold' });
         } catch (error) {
@@ -529,35 +872,14 @@ export class PokerGameEngine {
             return;
         }
 
-        // Find next active (non-folded) player clockwise (Requirement 2.1)
-        const playerPositions = Array.from(this.gameState.players.values())
-            .filter(p => p.isActive && !p.isFolded)
-            .map(p => p.position)
-            .sort((a, b) => a - b);
+        // Find next player clockwise who still has a decision to make (Requirement 2.1)
+        const nextPosition = BettingRules.nextToAct(activePlayers, this.gameState.currentPlayerPosition);
 
-        if (playerPositions.length === 0) {
+        if (nextPosition === null) {
             // No active players, shouldn't happen but handle gracefully
             return;
         }
 
-        // Find next position after current
-        let nextPosition = this.gameState.currentPlayerPosition;
-        let found = false;
-
-        // Look for next player clockwise
-        for (let i = 0; i < playerPositions.length; i++) {
-            if (playerPositions[i] > this.gameState.currentPlayerPosition) {
-                nextPosition = playerPositions[i];
-                found = true;
-                break;
-            }
-        }
-
-        // If no player found after current position, wrap around to first player
-        if (!found) {
-            nextPosition = playerPositions[0];
-        }
-
         // Update current player position
         this.gameState.currentPlayerPosition = nextPosition;
 
@@ -571,28 +893,7 @@ export class PokerGameEngine {
      * Requirements: 3.5
      */
     private isBettingRoundComplete(): boolean {
-        const activePlayers = this.getActivePlayers();
-
-        // Need at least one active player
-        if (activePlayers.length === 0) {
-            return true;
-        }
-
-        // Check if all active players with chips have acted
-        for (const player of activePlayers) {
-            // Players with chips who haven't acted mean round isn't complete
-            if (player.stack > 0 && !player.hasActed) {
-                return false;
-            }
-
-            // Players with chips who haven't matched the current bet mean round isn't complete
-            // (unless they're all-in)
-            if (player.stack > 0 && player.currentBet < this.gameState.currentBet) {
-                return false;
-            }
-        }
-
-        return true;
+        return BettingRules.isRoundComplete(this.getActivePlayers(), this.gameState.currentBet);
     }
 
     /**
@@ -603,62 +904,76 @@ export class PokerGameEngine {
         // Stop any active timer
         this.stopTurnTimer();
 
-        // Determine next street (Requirement 5.2)
-        let nextStreet: 'preflop' | 'flop' | 'turn' | 'river' | null = null;
-        let cardsToDeal = 0;
-
-        switch (this.gameState.currentStreet) {
-            case 'preflop':
-                nextStreet = 'flop';
-                cardsToDeal = 3; // Requirement 1.3, 5.3: Deal 3 cards for flop
-                break;
-            case 'flop':
-                nextStreet = 'turn';
-                cardsToDeal = 1; // Requirement 1.3, 5.4: Deal 1 card for turn
-                break;
-            case 'turn':
-                nextStreet = 'river';
-                cardsToDeal = 1; // Requirement 1.3, 5.5: Deal 1 card for river
-                break;
-            case 'river':
-                // Requirement 5.6: After river, proceed to showdown
-                await this.determineWinner();
-                return;
+        const streets = this.variant.streets;
+        const isLastStreet = this.gameState.currentStreet === streets[streets.length - 1];
+
+        // Draw poker: everyone still in, all-in or not, draws before the next betting round
+        if (this.variant.isDraw && !isLastStreet && !this.gameState.isDrawing) {
+            this.startDraw();
+            return;
+        }
+
+        // Nobody can bet any more: turn the hands face up and deal the rest of the board without turns
+        if (!this.gameState.isRunningOut && !isLastStreet && this.isAllInRunOut()) {
+            this.startRunOut();
+            return;
         }
 
-        if (!nextStreet) {
-            throw new Error('Invalid street progression');
+        // Requirement 5.6: After the river, or seventh street in stud, proceed to showdown
+        if (isLastStreet) {
+            await this.determineWinner();
+            return;
         }
 
-        // Deal appropriate number of community cards (Requirement 1.3)
-        const newCards = CardManager.dealCards(this.gameState.deck, cardsToDeal);
-        this.gameState.boardCards.push(...newCards);
+        // Determine next street (Requirement 5.2)
+        const nextStreet = streets[streets.indexOf(this.gameState.currentStreet) + 1];
+
+        if (this.variant.isStud) {
+            await this.dealStudStreet(nextStreet);
+        } else if (this.variant.hasBoard) {
+            // Deal appropriate number of community cards (Requirement 1.3)
+            // 3 for the flop, 1 each for the turn and river (Requirements 5.3, 5.4, 5.5)
+            const cardsToDeal = nextStreet === 'flop' ? 3 : 1;
+            const newCards = CardManager.dealCards(this.gameState.deck, cardsToDeal);
+            this.gameState.boardCards.push(...newCards);
+
+            // Running it twice, the second board gets its own cards for the street
+            if (this.gameState.secondBoardCards) {
+                this.gameState.secondBoardCards.push(...CardManager.dealCards(this.gameState.deck, cardsToDeal));
+            }
+        }
 
-        // Update current street in game state
+        // Update current street in game state, draw poker's players have their new cards already
         this.gameState.currentStreet = nextStreet;
+        this.gameState.isDrawing = false;
 
         // Reset player betting state for new street (Requirement 5.2)
         for (const player of this.gameState.players.values()) {
             if (player.isActive && !player.isFolded) {
-                player.hasActed = false;
-                player.currentBet = 0;
+                BettingRules.resetForStreet(player);
             }
         }
 
-        // Reset current bet for new street
-        this.gameState.currentBet = 0;
+        // Reset current bet for new street, bet sizes start over
+        this.setBettingRound(this.bettingStructure.newRound(nextStreet, this.config.bigBlind));
+        this.gameState.lastAggressorPosition = null;
 
         // Persist board_cards to database (Requirement 10.3)
         const boardCardsString = this.gameState.boardCards
             .map(card => CardManager.cardToString(card))
             .join(' ');
 
+        const secondBoardCardsString = this.gameState.secondBoardCards
+            ?.map(card => CardManager.cardToString(card))
+            .join(' ') ?? null;
+
         await query(
             `UPDATE hands 
-            SET board_cards = $1, current_street = $2, pot_size = $3
-            WHERE id = $4`,
+            SET board_cards = $1, board_cards_2 = $2, current_street = $3, pot_size = $4
+            WHERE id = $5`,
             [
                 boardCardsString,
+                secondBoardCardsString,
                 this.gameState.currentStreet,
                 this.gameState.pot,
                 this.gameState.handId,
@@ -666,12 +981,24 @@ export class PokerGameEngine {
         );
 
         // Emit 'game:street:advanced' event with new board cards (Requirement 5.2)
+        // Stud players' new cards went to each of them privately, the table sees the upcards
         this.io.to(`room:${this.gameState.roomId}`).emit('game:street:advanced', {
             street: this.gameState.currentStreet,
             boardCards: this.gameState.boardCards,
+            secondBoardCards: this.gameState.secondBoardCards,
             pot: this.gameState.pot,
+            ...(this.variant.isStud ? {
+                upCards: this.getUpCards(),
+                ...(this.gameState.isRunningOut ? { runOutHands: this.getShowdownHands() } : {}),
+            } : {}),
         });
 
+        // Reveal the next street after a pause, the river goes on to the showdown
+        if (this.gameState.isRunningOut) {
+            this.scheduleRunOut(() => this.advanceToNextStreet());
+            return;
+        }
+
         // Set first player to act (player after dealer button)
         const activePlayers = this.getActivePlayers();
         if (activePlayers.length === 0) {
@@ -680,180 +1007,600 @@ export class PokerGameEngine {
             return;
         }
 
-        // Find first active player after dealer button
-        const playerPositions = activePlayers
-            .map(p => p.position)
-            .sort((a, b) => a - b);
-
-        let firstPlayerPosition = playerPositions[0];
-        for (const position of playerPositions) {
-            if (position > this.gameState.dealerPosition) {
-                firstPlayerPosition = position;
-                break;
-            }
-        }
-
-        this.gameState.currentPlayerPosition = firstPlayerPosition;
+        // Find first player after dealer button who can still bet, so heads-up the dealer acts last
+        // In stud the best hand showing opens instead, or the next player with chips if they are all-in
+        const openerAfter = this.variant instanceof StudVariant
+            ? this.variant.bestShowing(Showdown.order(activePlayers, this.gameState.dealerPosition + 1)).position - 1
+            : this.gameState.dealerPosition;
+        this.gameState.currentPlayerPosition =
+            BettingRules.nextToAct(activePlayers, openerAfter) ?? activePlayers[0].position;
 
         // Start turn timer for first player
         this.startTurnTimer();
     }
 
     /**
-     * Determine winner at showdown
-     * Requirements: 6.1, 6.2, 6.3, 6.4, 6.5, 10.4, 10.5
+     * Deal every stud player still in their card for the street, face up on fourth to sixth street
+     * and face down on seventh, and send each player their own cards
+     * When the deck can't give everyone a seventh card, one card goes face up in the middle for them all
      */
-    async determineWinner(): Promise<void> {
-        // Stop any active timer
-        this.stopTurnTimer();
+    private async dealStudStreet(street: Street): Promise<void> {
+        const players = this.getActivePlayers().filter(p => p.holeCards);
+        const count = this.variant.cardsDealtOn(street);
 
-        // Get all active (non-folded) players
-        const activePlayers = this.getActivePlayers();
-
-        if (activePlayers.length === 0) {
-            // No active players, shouldn't happen but handle gracefully
-            console.error('No active players at showdown');
-            this.gameState.isHandActive = false;
+        if (players.length * count > this.gameState.deck.length) {
+            this.gameState.boardCards.push(...CardManager.dealCards(this.gameState.deck, count));
             return;
         }
 
-        // If only one player remains (everyone else folded), they win by default
-        if (activePlayers.length === 1) {
-            const winner = activePlayers[0];
-
-            // Award entire pot to winner (Requirement 6.3)
-            winner.stack += this.gameState.pot;
-
-            // Persist winner information to database (Requirement 6.5, 10.4)
-            await query(
-                `INSERT INTO winners (hand_id, user_id, amount_won, hand_rank)
-                VALUES ($1, $2, $3, $4)`,
-                [
-                    this.gameState.handId,
-                    winner.userId,
-                    this.gameState.pot,
-                    'Win by fold' // No hand evaluation needed
-                ]
-            );
+        for (const player of players) {
+            player.holeCards!.push(...CardManager.dealCards(this.gameState.deck, count));
 
-            // Update hand record with is_completed = true (Requirement 10.5)
+            const cards = player.holeCards!.map(card => CardManager.cardToString(card));
             await query(
-                `UPDATE hands SET is_completed = true WHERE id = $1`,
-                [this.gameState.handId]
+                `UPDATE hand_cards SET card_4 = $3, card_5 = $4, card_6 = $5, card_7 = $6
+                WHERE hand_id = $1 AND user_id = $2`,
+                [this.gameState.handId, player.userId, cards[3] ?? null, cards[4] ?? null, cards[5] ?? null, cards[6] ?? null]
             );
 
-            // Emit 'game:winner:determined' event (Requirement 6.5)
-            this.io.to(`room:${this.gameState.roomId}`).emit('game:winner:determined', {
-                winners: [{
-                    userId: winner.userId,
-                    username: winner.username,
-                    amountWon: this.gameState.pot,
-                    handRank: 'Win by fold',
-                    stack: winner.stack
-                }],
-                pot: this.gameState.pot
+            this.io.to(`user:${player.userId}`).emit('game:cards:dealt', {
+                userId: player.userId,
+                holeCards: player.holeCards,
             });
+        }
+    }
 
-            this.gameState.isHandActive = false;
+    /**
+     * Draw poker: the players still in swap cards one at a time, clockwise from the first after the button
+     */
+    private startDraw(): void {
+        this.gameState.isDrawing = true;
 
-            // Perform post-hand cleanup and prepare for next hand
-            await this.prepareNextHand();
-            return;
+        const drawOrder = Showdown.order(this.getActivePlayers(), this.gameState.dealerPosition + 1);
+        for (const player of drawOrder) {
+            player.hasActed = false;
         }
+        this.gameState.currentPlayerPosition = drawOrder[0].position;
 
-        // Multiple players remain - evaluate hands at showdown
-        // Requirement 6.1: Evaluate each active player's hand using HandEvaluator
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:draw:started', {
+            userIds: drawOrder.map(p => p.userId),
+            maxDiscards: this.variant.holeCardCount,
+        });
 
-        // Find winner(s) using findWinners() (Requirement 6.2)
-        const winnerIds = HandEvaluator.findWinners(activePlayers, this.gameState.boardCards);
+        this.startTurnTimer();
+    }
 
-        if (winnerIds.length === 0) {
-            console.error('No winners determined at showdown');
-            this.gameState.isHandActive = false;
-            return;
+    /**
+     * Throw away the given cards and get as many new ones, none to stand pat
+     * When the deck runs out the cards thrown away before are shuffled to deal the rest;
+     * the player's own discards only go on the pile once they have their new cards
+     */
+    async handleDraw(userId: number, discards: Card[]): Promise<void> {
+        if (!this.gameState.isHandActive || !this.gameState.isDrawing) {
+            throw new Error('There is no draw in progress');
         }
 
-        // Calculate side pots if needed (Requirement 4.5)
-        const sidePots = PotManager.calculateSidePots(Array.from(this.gameState.players.values()));
-
-        if (sidePots.length > 0) {
-            // Distribute side pots to winner(s) (Requirement 6.3, 6.4)
-            PotManager.distributeSidePots(sidePots, winnerIds, this.gameState.players);
-        } else {
-            // Simple pot distribution - no side pots
-            // Requirement 6.3: Award pot to winner
-            // Requirement 6.4: Split pot equally among tied players
-            PotManager.distributePot(this.gameState.pot, winnerIds, this.gameState.players);
+        const player = this.gameState.players.get(Number(userId));
+        if (!player) {
+            throw new Error('Player not found');
         }
 
-        // Prepare winner information for database and event
-        const winnerInfos: any[] = [];
-
-        for (const winnerId of winnerIds) {
-            const winner = this.gameState.players.get(winnerId);
-            if (!winner || !winner.holeCards) {
-                continue;
-            }
+        const currentPlayer = this.getPlayerAtPosition(this.gameState.currentPlayerPosition);
+        if (!currentPlayer || currentPlayer.userId !== player.userId || player.hasActed) {
+            throw new Error('Not your turn to draw');
+        }
 
-            // Evaluate winner's hand to get hand rank name
-            const handRank = HandEvaluator.evaluateHand(winner.holeCards, this.gameState.boardCards);
+        const hand = player.holeCards ?? [];
+        const discardIndexes = discards.map(card => hand.findIndex(c => c.rank === card?.rank && c.suit === card?.suit));
+        if (discardIndexes.some(index => index < 0) || new Set(discardIndexes).size !== discardIndexes.length) {
+            throw new Error('You can only throw away cards from your hand');
+        }
 
-            // Calculate amount won (pot split equally among winners)
-            const amountWon = Math.floor(this.gameState.pot / winnerIds.length);
+        this.stopTurnTimer();
 
-            // Persist winner information to database (Requirement 10.4)
-            await query(
-                `INSERT INTO winners (hand_id, user_id, amount_won, hand_rank)
-                VALUES ($1, $2, $3, $4)`,
-                [
-                    this.gameState.handId,
-                    winnerId,
-                    amountWon,
-                    handRank.name
-                ]
-            );
+        const discarded = discardIndexes.map(index => hand[index]);
+        const drawn = CardManager.dealWithReshuffle(this.gameState.deck, this.gameState.discardPile, discarded.length);
+        this.gameState.discardPile.push(...discarded);
+        player.holeCards = [...hand.filter((_, index) => !discardIndexes.includes(index)), ...drawn];
+        player.hasActed = true;
 
-            winnerInfos.push({
-                userId: winnerId,
-                username: winner.username,
-                amountWon,
-                handRank: handRank.name,
-                holeCards: winner.holeCards,
-                stack: winner.stack
-            });
-        }
+        // Recorded on the street the draw opens, hand_cards keeps the hand as it now stands
+        const streets = this.variant.streets;
+        const drawStreet = streets[streets.indexOf(this.gameState.currentStreet) + 1];
+        const toString = (cards: Card[]) => cards.map(card => CardManager.cardToString(card)).join(' ');
+        await query(
+            `INSERT INTO actions (hand_id, user_id, action_type, amount, street, discarded_cards, drawn_cards)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [this.gameState.handId, player.userId, 'draw', 0, drawStreet, toString(discarded), toString(drawn)]
+        );
 
-        // Update hand record with is_completed = true (Requirement 10.5)
+        const cards = player.holeCards.map(card => CardManager.cardToString(card));
         await query(
-            `UPDATE hands SET is_completed = true WHERE id = $1`,
-            [this.gameState.handId]
+            `UPDATE hand_cards SET card_1 = $3, card_2 = $4, card_3 = $5, card_4 = $6, card_5 = $7
+            WHERE hand_id = $1 AND user_id = $2`,
+            [this.gameState.handId, player.userId, ...cards]
         );
 
-        // Emit 'game:winner:determined' event with winner info (Requirement 6.5)
-        this.io.to(`room:${this.gameState.roomId}`).emit('game:winner:determined', {
-            winners: winnerInfos,
-            pot: this.gameState.pot,
-            boardCards: this.gameState.boardCards
+        this.io.to(`user:${player.userId}`).emit('game:cards:dealt', {
+            userId: player.userId,
+            holeCards: player.holeCards,
         });
 
-        this.gameState.isHandActive = false;
-
+        // The table only sees how many cards were swapped
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:draw:performed', {
+            userId: player.userId,
+            username: player.username,
+            cardCount: discarded.length,
+        });
+
+        const nextDrawer = Showdown.order(this.getActivePlayers().filter(p => !p.hasActed), player.position + 1)[0];
+        if (nextDrawer) {
+            this.gameState.currentPlayerPosition = nextDrawer.position;
+            this.startTurnTimer();
+        } else {
+            await this.advanceToNextStreet();
+        }
+
+        await this.saveSnapshot();
+    }
+
+    /**
+     * The hand is still contested but at most one player has chips left, so there is nobody to bet against
+     */
+    private isAllInRunOut(): boolean {
+        const activePlayers = this.getActivePlayers();
+        return activePlayers.length >= 2 && activePlayers.filter(p => p.stack > 0).length <= 1;
+    }
+
+    /**
+     * Show every hand still in and offer to run the rest of the board twice
+     * The streets are dealt once every player has answered or the offer runs out
+     * Stud and draw have no board to run twice, the hand carries on to the showdown straight away
+     */
+    private startRunOut(): void {
+        this.gameState.isRunningOut = true;
+        this.gameState.runItTwiceVotes = this.variant.hasBoard ? {} : null;
+
+        const activePlayers = this.getActivePlayers();
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:runout:started', {
+            players: this.getShowdownHands(),
+            boardCards: this.gameState.boardCards,
+            pot: this.gameState.pot,
+        });
+
+        if (!this.variant.hasBoard) {
+            this.scheduleRunOut(() => this.advanceToNextStreet());
+            return;
+        }
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:runittwice:offered', {
+            userIds: activePlayers.map(p => p.userId),
+            timeoutSeconds: PokerGameEngine.RUN_IT_TWICE_DECISION_SECONDS,
+        });
+
+        this.scheduleRunOut(() => this.decideRunItTwice(), PokerGameEngine.RUN_IT_TWICE_DECISION_SECONDS * 1000);
+    }
+
+    /**
+     * Answer the run-it-twice offer
+     * The offer closes as soon as anyone says no or every player still in has said yes
+     */
+    async voteRunItTwice(userId: number, agree: boolean): Promise<void> {
+        const votes = this.gameState.runItTwiceVotes;
+        if (!this.gameState.isRunningOut || !votes) {
+            throw new Error('Running it twice is not on offer');
+        }
+
+        const player = this.gameState.players.get(Number(userId));
+        if (!player || !player.isActive || player.isFolded) {
+            throw new Error('Only players in the hand can decide');
+        }
+
+        if (player.userId in votes) {
+            throw new Error('You have already decided');
+        }
+
+        votes[player.userId] = agree;
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:runittwice:voted', {
+            userId: player.userId,
+            username: player.username,
+            agree,
+        });
+
+        if (!agree || this.getActivePlayers().every(p => p.userId in votes)) {
+            this.stopRunOutTimer();
+            await this.decideRunItTwice();
+        }
+
+        await this.saveSnapshot();
+    }
+
+    /**
+     * Close the run-it-twice offer and start dealing
+     * The board runs twice only if every player still in agreed, silence counts as no
+     */
+    private async decideRunItTwice(): Promise<void> {
+        const votes = this.gameState.runItTwiceVotes;
+        if (!votes) {
+            return;
+        }
+
+        const runTwice = this.getActivePlayers().every(p => votes[p.userId] === true);
+        this.gameState.runItTwiceVotes = null;
+        // Both runs share the cards already on the board
+        this.gameState.secondBoardCards = runTwice ? [...this.gameState.boardCards] : null;
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:runittwice:decided', {
+            runTwice,
+        });
+
+        this.scheduleRunOut(() => this.advanceToNextStreet());
+    }
+
+    /**
+     * Take the next step of a run-out after a delay, the same way the turn timer drives a betting round
+     */
+    private scheduleRunOut(step: () => Promise<void>, delayMs: number = PokerGameEngine.RUN_OUT_DELAY_MS): void {
+        this.stopRunOutTimer();
+
+        this.runOutTimer = setTimeout(async () => {
+            this.runOutTimer = null;
+            try {
+                await step();
+                await this.saveSnapshot();
+            } catch (error) {
+                console.error('Error running out the board:', error);
+                this.io.to(`room:${this.gameState.roomId}`).emit('game:error', {
+                    message: 'Error running out the board'
+                });
+            }
+        }, delayMs);
+    }
+
+    private stopRunOutTimer(): void {
+        if (this.runOutTimer) {
+            clearTimeout(this.runOutTimer);
+            this.runOutTimer = null;
+        }
+    }
+
+    /**
+     * Face-up cards of every stud player still in the hand, for the whole table to see,
+     * with how many cards they hold in all
+     */
+    private getUpCards(): Array<{ userId: number; username: string; cards: Card[]; cardCount: number }> {
+        return this.getActivePlayers()
+            .filter(p => p.holeCards)
+            .map(p => ({
+                userId: p.userId,
+                username: p.username,
+                cards: this.variant.upCards(p.holeCards!),
+                cardCount: p.holeCards!.length,
+            }));
+    }
+
+    /**
+     * Hole cards of every player still in the hand, shown once no more betting can happen
+     */
+    private getShowdownHands(): Array<{ userId: number; username: string; holeCards: Card[] | null }> {
+        return this.getActivePlayers().map(p => ({
+            userId: p.userId,
+            username: p.username,
+            holeCards: p.holeCards,
+        }));
+    }
+
+    /**
+     * Determine winner at showdown
+     * Requirements: 6.1, 6.2, 6.3, 6.4, 6.5, 10.4, 10.5
+     */
+    async determineWinner(): Promise<void> {
+        // Stop any active timer
+        this.stopTurnTimer();
+        this.stopRunOutTimer();
+
+        // Get all active (non-folded) players
+        const activePlayers = this.getActivePlayers();
+
+        if (activePlayers.length === 0) {
+            // No active players, shouldn't happen but handle gracefully
+            console.error('No active players at showdown');
+            this.gameState.isHandActive = false;
+            return;
+        }
+
+        // If only one player remains (everyone else folded), they win by default
+        const wonByFold = activePlayers.length === 1;
+
+        // Build main and side pots from the per-hand contribution ledger (Requirement 4.5)
+        const pots = PotManager.calculateSidePots(Array.from(this.gameState.players.values()));
+
+        // Run twice, each pot is split between the boards and each half is played out on its own board
+        const boards = this.gameState.secondBoardCards
+            ? [this.gameState.boardCards, this.gameState.secondBoardCards]
+            : [this.gameState.boardCards];
+        const potsByRun = boards.length > 1 ? PotManager.splitPotsByRun(pots, boards.length) : [pots];
+
+        // Requirement 6.1, 6.2: Each pot goes to the best hand among its eligible players,
+        // in hi/lo games half of it goes to the best qualifying low
+        const isSplitPot = this.variant.hasLowHalf && !wonByFold;
+        const potAwards = potsByRun.flatMap((runPots, runIndex) => {
+            const playersIn = (eligiblePlayers: number[]) => eligiblePlayers.map(userId => this.gameState.players.get(userId)!);
+            const findHighWinners = (eligiblePlayers: number[]) => this.variant.findWinners(playersIn(eligiblePlayers), boards[runIndex]);
+            const awards = isSplitPot
+                ? PotManager.distributeSplitPots(
+                    runPots,
+                    findHighWinners,
+                    eligiblePlayers => this.variant.findLowWinners(playersIn(eligiblePlayers), boards[runIndex]),
+                    this.gameState.players
+                )
+                : PotManager.distributeSidePots(runPots, findHighWinners, this.gameState.players);
+            return awards.map(award => ({ ...award, run: runIndex + 1 }));
+        });
+
+        const handRankName = (userId: number, run: number, half: PotHalf): string => {
+            const winner = this.gameState.players.get(userId);
+            if (wonByFold || !winner?.holeCards) {
+                return 'Win by fold'; // No hand evaluation needed
+            }
+            return half === 'lo'
+                ? this.variant.evaluateLowHand(winner.holeCards, boards[run - 1])!.name
+                : this.variant.evaluateHand(winner.holeCards, boards[run - 1]).name;
+        };
+
+        // Hand rank names are only needed for players who won something, on the first board they won on
+        const handRankNames = new Map<number, string>();
+        for (const award of potAwards) {
+            for (const { userId } of award.winners) {
+                if (!handRankNames.has(userId)) {
+                    handRankNames.set(userId, handRankName(userId, award.run, award.half));
+                }
+            }
+        }
+
+        // What each winner took from each half of a split pot, null for a half they won nothing of
+        const halfWon = (userId: number, half: PotHalf) => {
+            const won = potAwards
+                .filter(award => award.half === half)
+                .flatMap(award => award.winners.filter(w => w.userId === userId).map(w => ({ ...w, run: award.run })));
+            return won.length === 0 ? null : {
+                amountWon: won.reduce((total, w) => total + w.amount, 0),
+                handRank: handRankName(userId, won[0].run, half),
+            };
+        };
+
+        // Persist one winners row per pot won on each board (Requirement 6.5, 10.4)
+        for (const award of potAwards) {
+            for (const { userId, amount } of award.winners) {
+                await query(
+                    `INSERT INTO winners (hand_id, user_id, pot_index, run, pot_half, amount_won, hand_rank)
+                    VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                    [
+                        this.gameState.handId,
+                        userId,
+                        award.potIndex,
+                        award.run,
+                        award.half,
+                        amount,
+                        handRankName(userId, award.run, award.half)
+                    ]
+                );
+            }
+        }
+
+        // Prepare winner information for the event, totalled across every pot
+        const amountsWon = new Map<number, number>();
+        for (const award of potAwards) {
+            for (const { userId, amount } of award.winners) {
+                amountsWon.set(userId, (amountsWon.get(userId) || 0) + amount);
+            }
+        }
+
+        const winnerInfos = Array.from(amountsWon.entries()).map(([userId, amountWon]) => {
+            const winner = this.gameState.players.get(userId)!;
+            return {
+                userId,
+                username: winner.username,
+                amountWon,
+                handRank: handRankNames.get(userId),
+                // Hole cards are only revealed at showdown
+                ...(wonByFold ? {} : { holeCards: winner.holeCards }),
+                ...(isSplitPot ? { halves: { hi: halfWon(userId, 'hi'), lo: halfWon(userId, 'lo') } } : {}),
+                stack: winner.stack
+            };
+        });
+
+        // Update hand record with is_completed = true (Requirement 10.5)
+        await query(
+            `UPDATE hands SET is_completed = true, pot_size = $2 WHERE id = $1`,
+            [this.gameState.handId, this.gameState.pot]
+        );
+
+        // Turn the hands over before paying out; a player who won without a showdown may show by choice
+        if (wonByFold) {
+            await this.recordShownHands([]);
+            this.offerShow(activePlayers[0]);
+        } else {
+            await this.revealShowdownHands(pots);
+        }
+
+        // Emit 'game:winner:determined' event with winner info (Requirement 6.5)
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:winner:determined', {
+            winners: winnerInfos,
+            pots: potAwards.map(award => ({
+                potIndex: award.potIndex,
+                run: award.run,
+                half: award.half,
+                amount: award.amount,
+                winners: award.winners.map(({ userId, amount }) => ({
+                    userId,
+                    username: this.gameState.players.get(userId)?.username,
+                    amountWon: amount
+                }))
+            })),
+            pot: this.gameState.pot,
+            ...(wonByFold ? {} : {
+                boardCards: this.gameState.boardCards,
+                secondBoardCards: this.gameState.secondBoardCards
+            })
+        });
+
+        this.gameState.isHandActive = false;
+        this.gameState.isRunningOut = false;
+
         // Perform post-hand cleanup and prepare for next hand
         await this.prepareNextHand();
     }
 
+    /**
+     * Turn the hands over in showdown order: the last player to bet or raise on the river first,
+     * otherwise the first player after the button, then clockwise
+     * Hands that can still win a pot have to be shown, the rest are mucked unless the player chooses to
+     * show them before the next hand. After an all-in run-out every hand is already face up
+     */
+    private async revealShowdownHands(pots: PotInfo[]): Promise<void> {
+        const contenders = this.getActivePlayers().filter(p => p.holeCards);
+        const lastAggressor = this.gameState.lastAggressorPosition;
+        const firstPosition = lastAggressor !== null && contenders.some(p => p.position === lastAggressor)
+            ? lastAggressor
+            : this.gameState.dealerPosition + 1;
+
+        const ordered = Showdown.order(contenders, firstPosition).map(player => ({
+            player,
+            hand: this.variant.evaluateHand(player.holeCards!, this.gameState.boardCards),
+            lowHand: this.variant.evaluateLowHand(player.holeCards!, this.gameState.boardCards),
+        }));
+        const mustShow = this.gameState.isRunningOut
+            ? new Set(contenders.map(p => p.userId))
+            : Showdown.mustShow(ordered.map(({ player, hand, lowHand }) => ({ userId: player.userId, hand, lowHand })), pots);
+
+        const shown = ordered.filter(({ player }) => mustShow.has(player.userId));
+        const mucked = ordered.filter(({ player }) => !mustShow.has(player.userId)).map(({ player }) => player);
+        const secondBoard = this.gameState.secondBoardCards;
+
+        await this.recordShownHands([...mustShow]);
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:showdown', {
+            hands: shown.map(({ player, hand, lowHand }) => ({
+                userId: player.userId,
+                username: player.username,
+                position: player.position,
+                holeCards: player.holeCards,
+                handRank: hand.name,
+                ...(this.variant.hasLowHalf ? { lowHandRank: lowHand?.name ?? null } : {}),
+                ...(secondBoard ? { secondBoardHandRank: this.variant.evaluateHand(player.holeCards!, secondBoard).name } : {}),
+            })),
+            mucked: mucked.map(p => ({ userId: p.userId, username: p.username })),
+        });
+
+        for (const player of mucked) {
+            this.offerShow(player);
+        }
+    }
+
+    /**
+     * Mark which hole cards were shown, hand history hides the others
+     */
+    private async recordShownHands(shownUserIds: number[]): Promise<void> {
+        await query(
+            `UPDATE hand_cards SET is_shown = (user_id = ANY($2)) WHERE hand_id = $1`,
+            [this.gameState.handId, shownUserIds]
+        );
+    }
+
+    /**
+     * Let a player turn their cards up anyway until the next hand is dealt
+     */
+    private offerShow(player: PlayerState): void {
+        this.gameState.canShowUserIds.push(player.userId);
+        this.io.to(`user:${player.userId}`).emit('game:show:offered', {
+            timeoutSeconds: PokerGameEngine.NEXT_HAND_DELAY_MS / 1000,
+        });
+    }
+
+    /**
+     * Show mucked cards, or the cards that won a pot without a showdown
+     */
+    async showCards(userId: number): Promise<void> {
+        const player = this.takeShowOption(userId);
+        const board = this.gameState.boardCards;
+        // A hand needs five cards: the flop in board games, fifth street in stud
+        const hasHand = player.holeCards !== null && player.holeCards.length + board.length >= 5;
+
+        await query(
+            `UPDATE hand_cards SET is_shown = true WHERE hand_id = $1 AND user_id = $2`,
+            [this.gameState.handId, player.userId]
+        );
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:cards:shown', {
+            userId: player.userId,
+            username: player.username,
+            holeCards: player.holeCards,
+            handRank: hasHand ? this.variant.evaluateHand(player.holeCards!, board).name : null,
+            ...(this.variant.hasLowHalf ? {
+                lowHandRank: hasHand ? this.variant.evaluateLowHand(player.holeCards!, board)?.name ?? null : null,
+            } : {}),
+        });
+
+        await this.saveSnapshot();
+    }
+
+    /**
+     * Keep the cards hidden, closing the option to show them
+     */
+    async muckCards(userId: number): Promise<void> {
+        const player = this.takeShowOption(userId);
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:cards:mucked', {
+            userId: player.userId,
+            username: player.username,
+        });
+
+        await this.saveSnapshot();
+    }
+
+    private takeShowOption(userId: number): PlayerState {
+        const player = this.gameState.players.get(Number(userId));
+        if (!player || !this.gameState.canShowUserIds.includes(player.userId)) {
+            throw new Error('You have no cards to show');
+        }
+
+        this.gameState.canShowUserIds = this.gameState.canShowUserIds.filter(id => id !== player.userId);
+        return player;
+    }
+
     /**
      * Post-hand cleanup and next hand preparation
      * Requirements: 7.2, 7.3, 7.4, 8.2, 8.3, 8.4, 8.5
      */
     async prepareNextHand(): Promise<void> {
-        // Check for eliminated players (stack = 0) (Requirement 7.3)
+        if (this.isGameFinished) {
+            return;
+        }
+
+        const isCashGame = this.config.gameMode === 'cash';
         const eliminatedPlayers: PlayerState[] = [];
-        for (const player of this.gameState.players.values()) {
-            if (player.stack === 0) {
-                player.isActive = false; // Mark as eliminated
-                eliminatedPlayers.push(player);
+
+        if (isCashGame) {
+            // Busted cash players sit out until they rebuy, everyone seated with chips is dealt in
+            for (const player of this.gameState.players.values()) {
+                if (player.stack === 0) {
+                    player.isSittingOut = true;
+                }
+                player.isActive = player.stack > 0 && !player.isSittingOut;
             }
+        } else {
+            // Check for players eliminated this hand (stack = 0) (Requirement 7.3)
+            for (const player of this.gameState.players.values()) {
+                if (player.stack === 0 && player.isActive) {
+                    player.isActive = false; // Mark as eliminated
+                    eliminatedPlayers.push(player);
+                }
+            }
+
+            await this.recordFinishPositions(eliminatedPlayers);
         }
 
         // Emit player stack updates to all players (Requirement 7.4)
@@ -861,23 +1608,41 @@ export class PokerGameEngine {
             userId: player.userId,
             username: player.username,
             stack: player.stack,
-            isActive: player.isActive
+            isActive: player.isActive,
+            isSittingOut: player.isSittingOut
         }));
 
         this.io.to(`room:${this.gameState.roomId}`).emit('game:stacks:updated', {
             players: stackUpdates,
             eliminatedPlayers: eliminatedPlayers.map(p => ({
                 userId: p.userId,
-                username: p.username
+                username: p.username,
+                finishPosition: p.finishPosition
             }))
         });
 
         // Count remaining active players
         const activePlayers = Array.from(this.gameState.players.values()).filter(p => p.isActive);
 
+        // A cash game never ends on its own - wait for busted or sitting-out players to come back
+        if (isCashGame && activePlayers.length < 2) {
+            this.gameState.isWaitingForPlayers = true;
+            this.io.to(`room:${this.gameState.roomId}`).emit('game:waiting', {
+                message: 'Waiting for at least two players with chips'
+            });
+            await this.saveSnapshot();
+            return;
+        }
+
         // Check if game should continue (Requirement 8.5: 2+ players remain)
         if (activePlayers.length < 2) {
             // Game is over - only 0 or 1 player remains
+            if (activePlayers.length === 1) {
+                await this.recordFinishPositions([activePlayers[0]]);
+            }
+
+            await this.finishGame();
+
             this.io.to(`room:${this.gameState.roomId}`).emit('game:ended', {
                 winner: activePlayers.length === 1 ? {
                     userId: activePlayers[0].userId,
@@ -893,33 +1658,19 @@ export class PokerGameEngine {
             .map(p => p.position)
             .sort((a, b) => a - b);
 
-        // Find next active player position after current dealer
-        let nextDealerPosition = this.gameState.dealerPosition;
-        let found = false;
+        // The big blind moves on to the next active player every hand, whatever happened to the button
+        const bigBlindPosition = activePositions.find(position => position > this.gameState.bigBlindPosition)
+            ?? activePositions[0];
+        this.recordMissedBigBlinds(bigBlindPosition);
 
-        for (const position of activePositions) {
-            if (position > this.gameState.dealerPosition) {
-                nextDealerPosition = position;
-                found = true;
-                break;
-            }
-        }
-
-        // If no player found after current dealer, wrap around to first active player
-        if (!found) {
-            nextDealerPosition = activePositions[0];
+        if (activePositions.length === 2) {
+            this.assignHeadsUpPositions(activePositions, bigBlindPosition);
+        } else {
+            this.assignPositions(bigBlindPosition);
         }
 
-        this.gameState.dealerPosition = nextDealerPosition;
-
-        // Calculate new blind positions (Requirements 8.3, 8.4)
-        // Small blind is clockwise from dealer
-        const dealerIndex = activePositions.indexOf(this.gameState.dealerPosition);
-        const smallBlindIndex = (dealerIndex + 1) % activePositions.length;
-        const bigBlindIndex = (dealerIndex + 2) % activePositions.length;
-
-        this.gameState.smallBlindPosition = activePositions[smallBlindIndex];
-        this.gameState.bigBlindPosition = activePositions[bigBlindIndex];
+        // Tournament blinds go up between hands once the current level has run its course
+        this.advanceBlindLevelIfDue();
 
         // Emit dealer and blind position updates
         this.io.to(`room:${this.gameState.roomId}`).emit('game:positions:updated', {
@@ -928,9 +1679,73 @@ export class PokerGameEngine {
             bigBlindPosition: this.gameState.bigBlindPosition
         });
 
+        await this.saveSnapshot();
+
         // Start next hand (Requirement 8.5)
+        this.scheduleNextHand();
+    }
+
+    /**
+     * Ante-only tables post no blinds, the big blind is only the smallest bet, and nor do stud games
+     */
+    private postsBlinds(): boolean {
+        return this.config.anteType !== 'ante_only' && !this.variant.isStud;
+    }
+
+    /**
+     * Dead button: the small blind goes to the seat that had the big blind and the button to the seat
+     * that had the small blind, even if the player there has busted or sat out, in which case that blind
+     * or the button is dead. Every player pays each blind once per orbit, none skipped and none twice
+     * Requirements: 8.2, 8.3, 8.4
+     */
+    private assignPositions(bigBlindPosition: number): void {
+        this.gameState.dealerPosition = this.gameState.smallBlindPosition;
+        this.gameState.smallBlindPosition = this.gameState.bigBlindPosition;
+        this.gameState.bigBlindPosition = bigBlindPosition;
+
+        const smallBlindPlayer = this.getPlayerAtPosition(this.gameState.smallBlindPosition);
+        if (smallBlindPlayer?.isSittingOut && smallBlindPlayer.missedBlinds === 'none') {
+            smallBlindPlayer.missedBlinds = 'small';
+        }
+    }
+
+    /**
+     * Heads-up the dealer posts the small blind, acts first before the flop and last after it
+     * The big blind moves on from last hand's big blind rather than following the button, so when
+     * the table shrinks to two nobody posts the big blind twice in a row or skips it
+     */
+    private assignHeadsUpPositions(activePositions: number[], bigBlindPosition: number): void {
+        const dealerPosition = activePositions.find(position => position !== bigBlindPosition)!;
+
+        this.gameState.dealerPosition = dealerPosition;
+        this.gameState.smallBlindPosition = dealerPosition;
+        this.gameState.bigBlindPosition = bigBlindPosition;
+    }
+
+    /**
+     * Sitting-out players the big blind passes over owe both blinds when they come back
+     */
+    private recordMissedBigBlinds(nextBigBlindPosition: number): void {
+        const from = this.gameState.bigBlindPosition;
+        const isPassedOver = (position: number) => nextBigBlindPosition > from
+            ? position > from && position < nextBigBlindPosition
+            : position > from || position < nextBigBlindPosition;
+
+        for (const player of this.gameState.players.values()) {
+            if (player.isSittingOut && isPassedOver(player.position)) {
+                player.missedBlinds = 'both';
+            }
+        }
+    }
+
+    /**
+     * Deal the next hand after a short pause
+     */
+    private scheduleNextHand(): void {
         // Add a small delay before starting next hand to allow players to review results
-        setTimeout(async () => {
+        this.stopNextHandTimer();
+        this.nextHandTimer = setTimeout(async () => {
+            this.nextHandTimer = null;
             try {
                 await this.startHand();
             } catch (error) {
@@ -939,7 +1754,309 @@ export class PokerGameEngine {
                     message: 'Error starting next hand'
                 });
             }
-        }, 5000); // 5 second delay
+        }, PokerGameEngine.NEXT_HAND_DELAY_MS);
+    }
+
+    private stopNextHandTimer(): void {
+        if (this.nextHandTimer) {
+            clearTimeout(this.nextHandTimer);
+            this.nextHandTimer = null;
+        }
+    }
+
+    /**
+     * Check that a player may add chips or leave right now (cash games, between hands)
+     */
+    private getCashPlayer(userId: number): PlayerState {
+        if (this.config.gameMode !== 'cash') {
+            throw new Error('Only available in cash games');
+        }
+
+        const player = this.gameState.players.get(Number(userId));
+        if (!player) {
+            throw new Error('Player not found');
+        }
+
+        // Chips committed to the pot stay tied to the player until the hand is settled
+        if (this.gameState.isHandActive && player.holeCards) {
+            throw new Error('Wait until the current hand is over');
+        }
+
+        return player;
+    }
+
+    /**
+     * Record the opening buy-in of every seated player in the chip ledger
+     */
+    async recordBuyIns(): Promise<void> {
+        for (const player of this.gameState.players.values()) {
+            await this.recordChipLedger(player, 'buy_in', player.stack);
+        }
+    }
+
+    /**
+     * Buy back in after busting (cash games)
+     */
+    async rebuy(userId: number, amount: number): Promise<void> {
+        const player = this.getCashPlayer(userId);
+
+        if (player.stack > 0) {
+            throw new Error('You can only rebuy once you are out of chips');
+        }
+
+        if (!Number.isInteger(amount) || amount < this.config.minBuyIn || amount > this.config.maxBuyIn) {
+            throw new Error(`Rebuy must be between ${this.config.minBuyIn} and ${this.config.maxBuyIn}`);
+        }
+
+        await BankrollManager.debit(player.userId, amount, this.gameState.gameId, 'rebuy');
+        player.stack = amount;
+        player.isSittingOut = false;
+        await this.recordChipLedger(player, 'rebuy', amount);
+        await this.saveSnapshot();
+        await this.resumeIfWaiting();
+    }
+
+    /**
+     * Add chips between hands, up to the table's maximum buy-in (cash games)
+     */
+    async topUp(userId: number, amount: number): Promise<void> {
+        const player = this.getCashPlayer(userId);
+
+        if (player.stack === 0) {
+            throw new Error('You are out of chips, rebuy instead');
+        }
+
+        if (!Number.isInteger(amount) || amount <= 0) {
+            throw new Error('Top-up amount must be positive');
+        }
+
+        if (player.stack + amount > this.config.maxBuyIn) {
+            throw new Error(`You can top up to at most ${this.config.maxBuyIn} chips`);
+        }
+
+        await BankrollManager.debit(player.userId, amount, this.gameState.gameId, 'top_up');
+        player.stack += amount;
+        await this.recordChipLedger(player, 'top_up', amount);
+        await this.saveSnapshot();
+    }
+
+    /**
+     * Sit out from (or back in to) the next hands (cash games)
+     * A player sitting out mid-hand still plays that hand out
+     */
+    async setSittingOut(userId: number, sittingOut: boolean): Promise<void> {
+        if (this.config.gameMode !== 'cash') {
+            throw new Error('Only available in cash games');
+        }
+
+        const player = this.gameState.players.get(Number(userId));
+        if (!player) {
+            throw new Error('Player not found');
+        }
+
+        if (!sittingOut && player.stack === 0) {
+            throw new Error('You need chips to sit back in');
+        }
+
+        player.isSittingOut = sittingOut;
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:seat:updated', {
+            userId: player.userId,
+            username: player.username,
+            isSittingOut: player.isSittingOut
+        });
+
+        await this.saveSnapshot();
+
+        if (!sittingOut) {
+            await this.resumeIfWaiting();
+        }
+    }
+
+    /**
+     * Leave the table, recording the stack taken away (cash games)
+     */
+    async cashOut(userId: number): Promise<number> {
+        const player = this.getCashPlayer(userId);
+        const amount = player.stack;
+
+        player.stack = 0;
+        this.gameState.players.delete(player.userId);
+        await this.recordChipLedger(player, 'cash_out', amount);
+        if (amount > 0) {
+            await BankrollManager.credit(player.userId, amount, this.gameState.gameId, 'cash_out');
+        }
+        await this.saveSnapshot();
+
+        return amount;
+    }
+
+    /**
+     * Wrap up the game once, whether it ended on its own or was ended by the owner
+     */
+    private async finishGame(): Promise<void> {
+        if (this.isGameFinished) {
+            return;
+        }
+        this.isGameFinished = true;
+        this.stopNextHandTimer();
+
+        await this.settleBankrolls();
+        await this.persistResults();
+
+        // Nothing left to recover
+        await query(`DELETE FROM game_snapshots WHERE game_id = $1`, [this.gameState.gameId]);
+    }
+
+    /**
+     * Credit every final stack back to its owner's bankroll
+     * A hand that was still running is abandoned and each player gets back what they put in
+     */
+    private async settleBankrolls(): Promise<void> {
+        const isCashGame = this.config.gameMode === 'cash';
+
+        for (const player of this.gameState.players.values()) {
+            if (this.gameState.isHandActive) {
+                player.stack += player.totalContribution;
+                player.totalContribution = 0;
+            }
+
+            if (isCashGame) {
+                await this.recordChipLedger(player, 'cash_out', player.stack, 0);
+            }
+
+            if (player.stack > 0) {
+                await BankrollManager.credit(
+                    player.userId,
+                    player.stack,
+                    this.gameState.gameId,
+                    isCashGame ? 'cash_out' : 'payout'
+                );
+            }
+        }
+        this.gameState.pot = 0;
+    }
+
+    /**
+     * Write the final standings and close the game record
+     * The results page reads these once the engine is gone
+     */
+    private async persistResults(): Promise<void> {
+        for (const player of this.getPlayers()) {
+            const handsPlayed = this.gameState.players.get(player.userId)?.handsPlayed ?? 0;
+
+            await query(
+                `INSERT INTO game_results (game_id, user_id, final_stack, finish_position, hands_played)
+                VALUES ($1, $2, $3, $4, $5)
+                ON CONFLICT (game_id, user_id) DO NOTHING`,
+                [this.gameState.gameId, player.userId, player.stack, player.finishPosition, handsPlayed]
+            );
+        }
+
+        await query(
+            `UPDATE game SET end_time = NOW() WHERE id = $1`,
+            [this.gameState.gameId]
+        );
+    }
+
+    /**
+     * Start dealing again once a paused cash game has two players who can play
+     */
+    private async resumeIfWaiting(): Promise<void> {
+        if (!this.gameState.isWaitingForPlayers || this.gameState.isHandActive) {
+            return;
+        }
+
+        const readyPlayers = Array.from(this.gameState.players.values())
+            .filter(p => p.stack > 0 && !p.isSittingOut);
+
+        if (readyPlayers.length >= 2) {
+            this.gameState.isWaitingForPlayers = false;
+            await this.prepareNextHand();
+        }
+    }
+
+    /**
+     * Persist a chip movement and tell the table about the new stack
+     */
+    private async recordChipLedger(
+        player: PlayerState,
+        entryType: ChipLedgerEntryType,
+        amount: number,
+        stackAfter: number = player.stack
+    ): Promise<void> {
+        await query(
+            `INSERT INTO chip_ledger (game_id, user_id, entry_type, amount, stack_after)
+            VALUES ($1, $2, $3, $4, $5)`,
+            [this.gameState.gameId, player.userId, entryType, amount, stackAfter]
+        );
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:chips:updated', {
+            userId: player.userId,
+            username: player.username,
+            entryType,
+            amount,
+            stack: player.stack
+        });
+    }
+
+    /**
+     * Assign finishing places to players knocked out in the same hand
+     * Players who started the hand with more chips finish higher; equal stacks share a place
+     */
+    private async recordFinishPositions(eliminatedPlayers: PlayerState[]): Promise<void> {
+        const playersStillIn = Array.from(this.gameState.players.values())
+            .filter(p => p.isActive && !eliminatedPlayers.includes(p)).length;
+
+        for (const player of eliminatedPlayers) {
+            // A busted player started the hand with exactly what they put in
+            const outlastedBy = eliminatedPlayers.filter(
+                other => other.totalContribution + other.stack > player.totalContribution + player.stack
+            ).length;
+
+            player.finishPosition = playersStillIn + outlastedBy + 1;
+
+            await query(
+                `UPDATE room_players SET finish_position = $1 WHERE room_id = $2 AND user_id = $3`,
+                [player.finishPosition, this.gameState.roomId, player.userId]
+            );
+        }
+    }
+
+    /**
+     * Move to the next tournament blind level when the current one is complete
+     */
+    private advanceBlindLevelIfDue(): void {
+        const schedule = this.config.blindSchedule;
+        if (this.config.gameMode !== 'tournament' || this.gameState.blindLevel >= schedule.length - 1) {
+            return;
+        }
+
+        const currentLevel = schedule[this.gameState.blindLevel];
+        const handsPlayed = this.gameState.handNumber - this.gameState.blindLevelStartHand;
+        const elapsedMs = Date.now() - this.gameState.blindLevelStartTime;
+
+        if (!BlindSchedule.isLevelComplete(currentLevel, handsPlayed, elapsedMs)) {
+            return;
+        }
+
+        this.gameState.blindLevel++;
+        this.gameState.blindLevelStartHand = this.gameState.handNumber;
+        this.gameState.blindLevelStartTime = Date.now();
+
+        const nextLevel = schedule[this.gameState.blindLevel];
+        this.config.smallBlind = nextLevel.smallBlind;
+        this.config.bigBlind = nextLevel.bigBlind;
+        this.config.ante = nextLevel.ante;
+
+        this.io.to(`room:${this.gameState.roomId}`).emit('game:blinds:raised', {
+            level: this.gameState.blindLevel + 1,
+            smallBlind: nextLevel.smallBlind,
+            bigBlind: nextLevel.bigBlind,
+            ante: nextLevel.ante,
+            durationHands: nextLevel.durationHands,
+            durationMinutes: nextLevel.durationMinutes,
+        });
     }
 
     /**
@@ -949,13 +2066,15 @@ export class PokerGameEngine {
     async endGame(): Promise<void> {
         // Stop any active timer
         this.stopTurnTimer();
+        this.stopRunOutTimer();
+
+        await this.finishGame();
 
         // Mark hand as inactive
         this.gameState.isHandActive = false;
 
         // Get final standings
-        const players = Array.from(this.gameState.players.values())
-            .sort((a, b) => b.stack - a.stack);
+        const players = this.getPlayers();
 
         // Emit game ended event
         this.io.to(`room:${this.gameState.roomId}`).emit('game:ended', {
@@ -967,23 +2086,32 @@ export class PokerGameEngine {
             leaderboard: players.map(p => ({
                 userId: p.userId,
                 username: p.username,
-                stack: p.stack
+                stack: p.stack,
+                finishPosition: p.finishPosition
             }))
         });
     }
 
     /**
-     * Get all players with their current state
+     * Get all players with their current state, in finishing order
+     * Players still in are ranked by stack ahead of eliminated players, who keep the place they busted in
      * Used for generating leaderboard
      */
-    getPlayers(): Array<{ userId: number; username: string; stack: number; position: number }> {
-        return Array.from(this.gameState.players.values())
-            .map(p => ({
-                userId: p.userId,
-                username: p.username,
-                stack: p.stack,
-                position: p.position
-            }))
+    getPlayers(): Array<{ userId: number; username: string; stack: number; position: number; finishPosition: number }> {
+        const players = Array.from(this.gameState.players.values());
+        const stillIn = players
+            .filter(p => p.finishPosition === null)
             .sort((a, b) => b.stack - a.stack);
+        const eliminated = players
+            .filter(p => p.finishPosition !== null)
+            .sort((a, b) => a.finishPosition! - b.finishPosition!);
+
+        return [...stillIn, ...eliminated].map((p, index) => ({
+            userId: p.userId,
+            username: p.username,
+            stack: p.stack,
+            position: p.position,
+            finishPosition: p.finishPosition ?? index + 1
+        }));
     }
 }
@@ -2,72 +2,87 @@
  * PotManager - Handles pot calculations, side pots, and chip distribution
  */
 
-import { PlayerState } from './types.js';
+import { PlayerState, PotHalf } from './types.js';
 
 export interface PotInfo {
     amount: number;
     eligiblePlayers: number[]; // userIds
 }
 
+export interface PotAward {
+    potIndex: number;
+    half: PotHalf; // 'hi' unless the pot was split with a low hand
+    amount: number;
+    winners: Array<{ userId: number; amount: number }>;
+}
+
 export class PotManager {
     /**
-     * Calculate the total pot from all player bets
+     * Calculate the total pot from every chip committed this hand
      * Requirements: 4.1, 4.2
      */
     static calculatePot(players: PlayerState[]): number {
-        return players.reduce((total, player) => total + player.currentBet, 0);
+        return players.reduce((total, player) => total + player.totalContribution, 0);
     }
 
     /**
-     * Calculate side pots for all-in scenarios with different amounts
+     * Calculate main and side pots from each player's total contribution to the hand
      * Requirements: 4.5
-     * 
+     *
      * Algorithm:
-     * 1. Sort players by their bet amount (ascending)
-     * 2. For each unique bet level, create a pot that includes all players who bet at least that amount
-     * 3. Each pot contains the difference between current level and previous level, multiplied by eligible players
+     * 1. Collect the unique contribution levels (ascending)
+     * 2. For each level, every player pays into the layer up to what they committed,
+     *    so chips from folded players still count towards the pots they reached
+     * 3. Only non-folded players who committed at least the level are eligible for the layer
+     * 4. Layers with the same eligible players are merged into a single pot
      */
     static calculateSidePots(players: PlayerState[]): PotInfo[] {
-        // Filter out players who haven't bet anything
-        const bettingPlayers = players.filter(p => p.currentBet > 0);
+        // Filter out players who haven't committed anything
+        const contributors = players.filter(p => p.totalContribution > 0);
 
-        if (bettingPlayers.length === 0) {
+        if (contributors.length === 0) {
             return [];
         }
 
-        // Sort players by bet amount (ascending)
-        const sortedPlayers = [...bettingPlayers].sort((a, b) => a.currentBet - b.currentBet);
-
         const pots: PotInfo[] = [];
-        let previousBetLevel = 0;
+        let previousLevel = 0;
+        let deadMoney = 0;
+
+        // Get unique contribution levels
+        const levels = [...new Set(contributors.map(p => p.totalContribution))].sort((a, b) => a - b);
 
-        // Get unique bet levels
-        const betLevels = [...new Set(sortedPlayers.map(p => p.currentBet))].sort((a, b) => a - b);
+        for (const level of levels) {
+            const layerAmount = contributors.reduce(
+                (total, p) => total + Math.min(p.totalContribution, level) - Math.min(p.totalContribution, previousLevel),
+                0
+            );
+            previousLevel = level;
 
-        for (const betLevel of betLevels) {
-            // Find all players who bet at least this amount and haven't folded
-            const eligiblePlayers = players
-                .filter(p => p.currentBet >= betLevel && !p.isFolded)
+            const eligiblePlayers = contributors
+                .filter(p => p.totalContribution >= level && !p.isFolded)
                 .map(p => p.userId);
 
+            // Only folded players reached this layer - carry the chips into the next live pot
             if (eligiblePlayers.length === 0) {
+                deadMoney += layerAmount;
                 continue;
             }
 
-            // Calculate pot amount for this level
-            // Each eligible player contributes (betLevel - previousBetLevel)
-            const contributionPerPlayer = betLevel - previousBetLevel;
-            const playersAtThisLevel = players.filter(p => p.currentBet >= betLevel).length;
-            const potAmount = contributionPerPlayer * playersAtThisLevel;
-
-            if (potAmount > 0) {
+            const lastPot = pots[pots.length - 1];
+            if (lastPot && this.haveSamePlayers(lastPot.eligiblePlayers, eligiblePlayers)) {
+                lastPot.amount += layerAmount + deadMoney;
+            } else {
                 pots.push({
-                    amount: potAmount,
+                    amount: layerAmount + deadMoney,
                     eligiblePlayers
                 });
             }
+            deadMoney = 0;
+        }
 
-            previousBetLevel = betLevel;
+        // Dead money above every live player's contribution belongs to the last pot
+        if (deadMoney > 0 && pots.length > 0) {
+            pots[pots.length - 1].amount += deadMoney;
         }
 
         return pots;
@@ -80,12 +95,13 @@ export class PotManager {
      * @param pot - Total pot amount to distribute
      * @param winners - Array of winner userIds
      * @param players - Map of userId to PlayerState
+     * @returns Amount paid to each winner
      */
     static distributePot(
         pot: number,
         winners: number[],
         players: Map<number, PlayerState>
-    ): void {
+    ): Array<{ userId: number; amount: number }> {
         if (winners.length === 0) {
             throw new Error('Cannot distribute pot: no winners specified');
         }
@@ -95,7 +111,7 @@ export class PotManager {
         const remainder = pot % winners.length;
 
         // Distribute pot to each winner
-        winners.forEach((userId, index) => {
+        return winners.map((userId, index) => {
             const player = players.get(userId);
             if (!player) {
                 throw new Error(`Cannot distribute pot: player ${userId} not found`);
@@ -104,32 +120,91 @@ export class PotManager {
             // First winner gets any remainder from rounding
             const winnings = index === 0 ? amountPerWinner + remainder : amountPerWinner;
             player.stack += winnings;
+
+            return { userId, amount: winnings };
         });
     }
 
     /**
-     * Distribute side pots to winners
+     * Distribute main and side pots, each to the best hand among its eligible players
      * Requirements: 4.5, 6.3, 6.4
      * 
      * @param sidePots - Array of side pots with eligible players
-     * @param winners - Array of winner userIds (in order of hand strength)
+     * @param findPotWinners - Returns the winning userIds among a pot's eligible players
      * @param players - Map of userId to PlayerState
+     * @returns One award per pot
      */
     static distributeSidePots(
         sidePots: PotInfo[],
-        winners: number[],
+        findPotWinners: (eligiblePlayers: number[]) => number[],
         players: Map<number, PlayerState>
-    ): void {
-        for (const pot of sidePots) {
-            // Find which winners are eligible for this pot
-            const eligibleWinners = winners.filter(winnerId =>
-                pot.eligiblePlayers.includes(winnerId)
-            );
+    ): PotAward[] {
+        return sidePots.map((pot, potIndex) => {
+            const potWinners = findPotWinners(pot.eligiblePlayers);
+
+            return {
+                potIndex,
+                half: 'hi' as const,
+                amount: pot.amount,
+                winners: this.distributePot(pot.amount, potWinners, players)
+            };
+        });
+    }
 
-            if (eligibleWinners.length > 0) {
-                // Distribute this pot among eligible winners
-                this.distributePot(pot.amount, eligibleWinners, players);
+    /**
+     * Distribute main and side pots in a hi/lo game, splitting each between its best high and best low hand
+     * The high half takes the odd chip of an odd pot. When nobody in a pot has a qualifying low
+     * the high hand scoops it, and a player with the best high and the best low wins both halves
+     *
+     * @param sidePots - Array of side pots with eligible players
+     * @param findHighWinners - Returns the best high hands among a pot's eligible players
+     * @param findLowWinners - Returns the best qualifying lows among a pot's eligible players, empty if none
+     * @param players - Map of userId to PlayerState
+     * @returns One award per pot half, or one for the whole pot when it is scooped without a low
+     */
+    static distributeSplitPots(
+        sidePots: PotInfo[],
+        findHighWinners: (eligiblePlayers: number[]) => number[],
+        findLowWinners: (eligiblePlayers: number[]) => number[],
+        players: Map<number, PlayerState>
+    ): PotAward[] {
+        return sidePots.flatMap((pot, potIndex): PotAward[] => {
+            const highWinners = findHighWinners(pot.eligiblePlayers);
+            const lowWinners = findLowWinners(pot.eligiblePlayers);
+
+            if (lowWinners.length === 0) {
+                return [{
+                    potIndex,
+                    half: 'hi',
+                    amount: pot.amount,
+                    winners: this.distributePot(pot.amount, highWinners, players)
+                }];
             }
-        }
+
+            const lowAmount = Math.floor(pot.amount / 2);
+            const highAmount = pot.amount - lowAmount;
+
+            return [
+                { potIndex, half: 'hi', amount: highAmount, winners: this.distributePot(highAmount, highWinners, players) },
+                { potIndex, half: 'lo', amount: lowAmount, winners: this.distributePot(lowAmount, lowWinners, players) },
+            ];
+        });
+    }
+
+    /**
+     * Split every pot evenly between the boards of a hand that is run more than once
+     * Each share keeps the pot's eligible players; odd chips go to the earlier runs
+     *
+     * @returns The pots to play out on each board, in run order
+     */
+    static splitPotsByRun(pots: PotInfo[], runs: number): PotInfo[][] {
+        return Array.from({ length: runs }, (_, run) => pots.map(pot => ({
+            amount: Math.floor(pot.amount / runs) + (run < pot.amount % runs ? 1 : 0),
+            eligiblePlayers: pot.eligiblePlayers
+        })));
+    }
+
+    private static haveSamePlayers(a: number[], b: number[]): boolean {
+        return a.length === b.length && a.every(userId => b.includes(userId));
     }
 }
@@ -0,0 +1,68 @@
+/**
+ * Showdown - The order hands are turned over in and which of them have to be shown
+ * The last player to bet or raise on the river shows first, otherwise the first player after the button,
+ * then everyone else clockwise. A player who can't beat a hand already shown may muck instead,
+ * in hi/lo games only if their low can't win either
+ */
+
+import { HandEvaluator } from './HandEvaluator.js';
+import { PotInfo } from './PotManager.js';
+import { HandRank } from './types.js';
+
+export interface ShowdownHand {
+    userId: number;
+    hand: HandRank;
+    lowHand?: HandRank | null; // Qualifying low in hi/lo games
+}
+
+export class Showdown {
+    /**
+     * Players in showing order, clockwise from the first seat at or after firstPosition
+     */
+    static order<T extends { position: number }>(players: T[], firstPosition: number): T[] {
+        const sorted = [...players].sort((a, b) => a.position - b.position);
+        const first = sorted.findIndex(p => p.position >= firstPosition);
+        return first <= 0 ? sorted : [...sorted.slice(first), ...sorted.slice(0, first)];
+    }
+
+    /**
+     * Players who have to show, given the hands in showing order
+     * A hand must be shown when it beats or ties the best hand shown so far in any pot the player is in,
+     * so the first hand is always shown and so is every pot winner
+     * A qualifying low is held against the best low shown the same way
+     */
+    static mustShow(hands: ShowdownHand[], pots: PotInfo[]): Set<number> {
+        const bestShown: Array<HandRank | null> = pots.map(() => null);
+        const bestLowShown: Array<HandRank | null> = pots.map(() => null);
+        const shown = new Set<number>();
+
+        for (const { userId, hand, lowHand } of hands) {
+            const contested = pots
+                .map((pot, index) => ({ pot, index }))
+                .filter(({ pot }) => pot.eligiblePlayers.includes(userId));
+
+            const isStillLive = contested.some(({ index }) =>
+                this.canWin(hand, bestShown[index]) || (lowHand && this.canWin(lowHand, bestLowShown[index]))
+            );
+            if (!isStillLive) {
+                continue;
+            }
+
+            shown.add(userId);
+            for (const { index } of contested) {
+                if (bestShown[index] === null || HandEvaluator.compareHands(hand, bestShown[index]!) > 0) {
+                    bestShown[index] = hand;
+                }
+                if (lowHand && (bestLowShown[index] === null || HandEvaluator.compareHands(lowHand, bestLowShown[index]!) > 0)) {
+                    bestLowShown[index] = lowHand;
+                }
+            }
+        }
+
+        return shown;
+    }
+
+    private static canWin(hand: HandRank, bestShown: HandRank | null): boolean {
+        return bestShown === null || HandEvaluator.compareHands(hand, bestShown) >= 0;
+    }
+}
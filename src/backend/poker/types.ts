@@ -19,11 +19,73 @@ export interface PlayerState {
     position: number;
     stack: number;
     currentBet: number;
-    holeCards: [Card, Card] | null;
+    totalContribution: number; // Chips committed across every street of the current hand
+    holeCards: Card[] | null; // Two in Hold'em, four in Omaha, up to seven in stud in the order dealt, five in draw
     isActive: boolean;
     isFolded: boolean;
     hasActed: boolean;
+    canRaise: boolean; // False when an all-in short of a full raise comes back round, they can only call or fold
+    isSittingOut: boolean; // Skipped when dealing until they sit back in
+    missedBlinds: MissedBlinds; // Blinds that passed them while sitting out, posted when they come back
+    handsPlayed: number; // Hands this player was dealt into
+    finishPosition: number | null; // Set when the player is eliminated (1 = winner)
 }
 
-export type Street = 'preflop' | 'flop' | 'turn' | 'river';
+// 'small' when only the small blind passed a sitting-out player, 'both' once the big blind has too
+export type MissedBlinds = 'none' | 'small' | 'both';
+
+export type Street = 'preflop' | 'flop' | 'turn' | 'river' | StudStreet | DrawStreet;
+// Stud games deal each player's own cards street by street instead of a board
+export type StudStreet = 'third_street' | 'fourth_street' | 'fifth_street' | 'sixth_street' | 'seventh_street';
+// Draw games bet before the draw, then on 'draw' the players swap cards and bet again
+export type DrawStreet = 'predraw' | 'draw';
 export type ActionType = 'fold' | 'check' | 'call' | 'raise' | 'allin';
+
+// Values of the action_type enum, forced bets and draws included
+export type RecordedActionType = 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'all_in' | 'ante' | 'small_blind' | 'big_blind' | 'dead_blind' | 'bring_in' | 'draw';
+
+// An action as a player submits it; raise amounts are the total bet for the street
+export interface PlayerAction {
+    type: 'fold' | 'check' | 'call' | 'raise' | 'all_in';
+    amount?: number;
+}
+
+// Every player dealt in posts the ante, or the big blind posts one ante for the whole table
+// 'ante_only' has every player post the ante and nobody post blinds, the big blind is only the smallest bet
+export type AnteType = 'per_player' | 'big_blind' | 'ante_only';
+
+export type BettingStructureType = 'no_limit' | 'pot_limit' | 'fixed_limit';
+
+export type GameVariantType = 'holdem' | 'short_deck' | 'omaha' | 'omaha_hi_lo' | 'stud' | 'razz' | 'five_card_draw';
+
+// Half of a split pot: the best high hand wins 'hi', the best qualifying low wins 'lo'
+export type PotHalf = 'hi' | 'lo';
+
+export type GameMode = 'freezeout' | 'tournament' | 'cash';
+
+export type ChipLedgerEntryType = 'buy_in' | 'rebuy' | 'top_up' | 'cash_out';
+
+export type BankrollTransactionType = 'opening' | 'buy_in' | 'rebuy' | 'top_up' | 'cash_out' | 'payout' | 'refund';
+
+export interface BlindLevel {
+    smallBlind: number;
+    bigBlind: number;
+    ante: number;
+    durationHands?: number; // Level ends after this many hands...
+    durationMinutes?: number; // ...or after this many minutes
+}
+
+export interface TableConfig {
+    smallBlind: number;
+    bigBlind: number;
+    ante: number; // 0 for no ante
+    anteType: AnteType;
+    startingStack: number;
+    turnTimeSeconds: number;
+    gameMode: GameMode;
+    bettingStructure: BettingStructureType;
+    variant: GameVariantType;
+    blindSchedule: BlindLevel[]; // Tournament levels, empty for fixed blinds
+    minBuyIn: number; // Cash games only: smallest rebuy allowed
+    maxBuyIn: number; // Cash games only: a stack can't be topped up beyond this
+}
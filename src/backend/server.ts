@@ -8,10 +8,14 @@ import { Server } from 'socket.io';
 import { fileURLToPath } from 'url';
 import ViteExpress from 'vite-express';
 
-import { createGame, endGame, getGameDetails, getGameResults, getGames, joinGame, leaveGame, startGame } from './controllers/gameController.js';
+import { getBankroll } from './controllers/bankrollController.js';
+import { createGame, endGame, getChipLedger, getGameDetails, getGameResults, getGames, joinGame, leaveGame, startGame } from './controllers/gameController.js';
+import { exportGameHands, exportHands, getHand, getHands, getHandsPage, importHands } from './controllers/handHistoryController.js';
 import { getMessages, sendMessage } from './controllers/messageController.js';
-import { getGame, registerPokerHandlers } from './controllers/pokerGameController.js';
+import { getGame, registerPokerHandlers, restoreActiveGames } from './controllers/pokerGameController.js';
 import pool, { testConnection } from './database.js';
+import { BankrollManager } from './poker/BankrollManager.js';
+import { GameVariant } from './poker/GameVariant.js';
 
 // Session types are in types.d.ts
 
@@ -35,19 +39,22 @@ if (process.env.NODE_ENV === 'production') {
     app.set('trust proxy', 1);
 }
 
-app.use(
-    session({
-        secret: process.env.SESSION_SECRET || 'dev-secret',
-        resave: false,
-        saveUninitialized: false,
-        cookie: {
-            httpOnly: true,
-            sameSite: 'lax',
-            secure: process.env.NODE_ENV === 'production',
-            maxAge: 1000 * 60 * 60 * 6, // 6 hours
-        },
-    })
-);
+const sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET || 'dev-secret',
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: 1000 * 60 * 60 * 6, // 6 hours
+    },
+});
+
+app.use(sessionMiddleware);
+
+// Share the session with Socket.io so a socket's user comes from the session cookie
+io.engine.use(sessionMiddleware);
 
 // ---------- VIEW ENGINE ----------
 app.set('view engine', 'ejs');
@@ -87,43 +94,27 @@ app.post('/chat/send', requireAuth, async (_req, res) => {
 
 // ---------- SOCKET.IO ----------
 
-// Map socket IDs to user IDs for private messaging
-const socketToUser = new Map<string, number>();
-const userToSocket = new Map<number, string>();
-
 io.on('connection', (socket) => {
     console.log('[socket] User connected', socket.id);
 
-    // Handle user authentication for socket
-    socket.on('auth:identify', (data: { userId: number }) => {
-        console.log('[socket] ===== AUTH:IDENTIFY EVENT RECEIVED =====');
-        console.log('[socket] Data:', data);
+    // Authenticate the socket from the shared express session
+    const sessionUser = socket.request.session?.user;
+    const sessionUserId = sessionUser ? Number(sessionUser.id) : NaN;
 
-        if (!data?.userId) {
-            console.error('[socket] Invalid auth:identify data', data);
-            return;
-        }
-
-        // Ensure userId is a number
-        const numericUserId = Number(data.userId);
-
-        if (isNaN(numericUserId)) {
-            console.error('[socket] Invalid userId - not a number:', data.userId);
-            return;
-        }
+    if (!isNaN(sessionUserId)) {
+        socket.data.userId = sessionUserId;
 
-        // Clean up any existing mapping for this user
-        const existingSocketId = userToSocket.get(numericUserId);
-        if (existingSocketId && existingSocketId !== socket.id) {
-            socketToUser.delete(existingSocketId);
-            console.log(`[socket] Cleaned up old socket ${existingSocketId} for user ${numericUserId}`);
-        }
+        // Join the user's private channel (shared by all of their open tabs)
+        socket.join(`user:${sessionUserId}`);
 
-        // Map socket to user
-        socketToUser.set(socket.id, numericUserId);
-        userToSocket.set(numericUserId, socket.id);
+        console.log(`[socket] User ${sessionUserId} authenticated from session on socket ${socket.id}`);
+    } else {
+        console.log(`[socket] Socket ${socket.id} has no authenticated session`);
+    }
 
-        console.log(`[socket] User ${numericUserId} (type: ${typeof numericUserId}) identified on socket ${socket.id}`);
+    // Kept for older clients - the user is taken from the session, never from the payload
+    socket.on('auth:identify', () => {
+        console.log(`[socket] auth:identify ignored for socket ${socket.id} - identity comes from the session`);
     });
 
     // Handle joining the lobby chat room
@@ -138,6 +129,14 @@ io.on('connection', (socket) => {
         console.log('[socket] ===== ROOM:JOIN EVENT RECEIVED =====');
         console.log('[socket] Data:', data);
 
+        const userId: number | undefined = socket.data.userId;
+
+        if (!userId) {
+            console.error(`[socket] Rejected room:join from unauthenticated socket ${socket.id}`);
+            socket.emit('game:error', { message: 'Not authenticated' });
+            return;
+        }
+
         if (!data?.roomId) {
             console.error('[socket] Invalid room:join data', data);
             return;
@@ -153,14 +152,6 @@ io.on('connection', (socket) => {
         socket.join(roomName);
         console.log(`[socket] ${socket.id} joined ${roomName}`);
 
-        // Get user ID from socket mapping
-        const userId = socketToUser.get(socket.id);
-
-        if (!userId) {
-            console.error(`[socket] User not identified for socket ${socket.id}`);
-            return;
-        }
-
         console.log(`[socket] User ${userId} (type: ${typeof userId}) joining room ${numericRoomId}`);
 
         // Check if there's an active poker game for this room
@@ -170,6 +161,9 @@ io.on('connection', (socket) => {
             // Register poker event handlers for this socket
             registerPokerHandlers(io, socket, userId, numericRoomId);
             console.log(`[socket] Registered poker handlers for user ${userId} in room ${numericRoomId}`);
+
+            // Catch up on a hand already in progress (reconnects, page reloads, server restarts)
+            game.syncPlayer(userId);
         } else {
             console.log(`[socket] No active game found for room ${numericRoomId} - handlers will be registered when game starts`);
         }
@@ -186,6 +180,14 @@ io.on('connection', (socket) => {
         console.log('[socket] ===== GAME:REGISTER:HANDLERS EVENT RECEIVED =====');
         console.log('[socket] Data:', data);
 
+        const userId: number | undefined = socket.data.userId;
+
+        if (!userId) {
+            console.error(`[socket] Rejected game:register:handlers from unauthenticated socket ${socket.id}`);
+            socket.emit('game:error', { message: 'Not authenticated' });
+            return;
+        }
+
         if (!data?.roomId) {
             console.error('[socket] Invalid game:register:handlers data', data);
             return;
@@ -197,12 +199,6 @@ io.on('connection', (socket) => {
             return;
         }
 
-        const userId = socketToUser.get(socket.id);
-        if (!userId) {
-            console.error(`[socket] User not identified for socket ${socket.id}`);
-            return;
-        }
-
         console.log(`[socket] Registering handlers for user ${userId} (type: ${typeof userId}) in room ${numericRoomId}`);
 
         const game = getGame(numericRoomId);
@@ -217,8 +213,7 @@ io.on('connection', (socket) => {
     socket.on('disconnect', () => {
         console.log('[socket] User disconnected', socket.id);
 
-        // Get user ID before removing mapping
-        const userId = socketToUser.get(socket.id);
+        const userId: number | undefined = socket.data.userId;
 
         // Handle player disconnection during active game
         if (userId) {
@@ -240,12 +235,6 @@ io.on('connection', (socket) => {
                 }
             }
         }
-
-        // Clean up socket mappings
-        if (userId) {
-            userToSocket.delete(userId);
-        }
-        socketToUser.delete(socket.id);
     });
 });
 
@@ -273,7 +262,7 @@ app.post('/auth/login', async (req, res) => {
         const result = await pool.query(
             `SELECT id, email, username, password_hash
        FROM users
-       WHERE email=$1 OR username=$1`,
+       WHERE (email=$1 OR username=$1) AND NOT is_imported`,
             [identifier]
         );
 
@@ -316,8 +305,8 @@ app.post('/auth/signup', async (req, res) => {
             });
         }
 
-        // check duplicates
-        const dup = await pool.query('SELECT id FROM users WHERE email=$1 OR username=$2', [
+        // check duplicates (players from imported hand histories don't hold on to their names)
+        const dup = await pool.query('SELECT id FROM users WHERE (email=$1 OR username=$2) AND NOT is_imported', [
             email,
             username,
         ]);
@@ -335,6 +324,8 @@ app.post('/auth/signup', async (req, res) => {
             [email, username, passwordHash]
         );
 
+        await BankrollManager.openAccount(inserted.rows[0].id);
+
         (req.session as any).user = inserted.rows[0];
         return res.redirect('/lobby');
     } catch (err) {
@@ -374,6 +365,23 @@ app.post('/api/games/:id/end', requireAuth, endGame);
 // Game results page
 app.get('/games/:id/results', requireAuth, getGameResults);
 
+// PokerStars hand history export, per game or per date range (?from=YYYY-MM-DD&to=YYYY-MM-DD), and import
+// Registered before /api/hands/:handId so "export" isn't taken for a hand id
+app.get('/api/games/:id/hands/export', requireAuth, exportGameHands);
+app.get('/api/hands/export', requireAuth, exportHands);
+app.post('/api/hands/import', requireAuth, express.text({ limit: '5mb' }), importHands);
+
+// Hand history page and API
+app.get('/games/:id/hands', requireAuth, getHandsPage);
+app.get('/api/games/:id/hands', requireAuth, getHands);
+app.get('/api/hands/:handId', requireAuth, getHand);
+
+// Chip ledger of a cash game
+app.get('/api/games/:id/ledger', requireAuth, getChipLedger);
+
+// Bankroll balance and transaction history (API)
+app.get('/api/bankroll', requireAuth, getBankroll);
+
 // ---------- PAGE ROUTES ----------
 
 // lobby
@@ -389,6 +397,13 @@ app.get('/lobby', requireAuth, async (req, res) => {
                 gr.max_players,
                 gr.status,
                 gr.created_at,
+                gr.small_blind,
+                gr.big_blind,
+                gr.ante,
+                gr.ante_type,
+                gr.game_mode,
+                gr.betting_structure,
+                gr.variant,
                 COUNT(rp.user_id) as player_count
             FROM game_room gr
             LEFT JOIN room_players rp ON gr.id = rp.room_id
@@ -399,6 +414,7 @@ app.get('/lobby', requireAuth, async (req, res) => {
 
         res.render('pages/lobby', {
             username: user?.username || 'Player',
+            bankroll: user ? await BankrollManager.getBalance(user.id) : 0,
             games: gamesResult.rows,
             messages: [],
         });
@@ -430,7 +446,8 @@ app.get('/games/:id', requireAuth, async (req, res) => {
 
         // Get game room details
         const roomResult = await pool.query(
-            `SELECT id, name, max_players, status, owner_id FROM game_room WHERE id = $1`,
+            `SELECT id, name, max_players, status, owner_id, game_mode, min_buy_in, max_buy_in, variant
+            FROM game_room WHERE id = $1`,
             [gameId]
         );
 
@@ -526,6 +543,10 @@ app.get('/games/:id', requireAuth, async (req, res) => {
             userId,
             ownerId: roomResult.rows[0].owner_id,
             gameStatus: roomResult.rows[0].status,
+            gameMode: roomResult.rows[0].game_mode,
+            minBuyIn: Number(roomResult.rows[0].min_buy_in),
+            maxBuyIn: Number(roomResult.rows[0].max_buy_in),
+            holeCardCount: GameVariant.create(roomResult.rows[0].variant).holeCardCount,
             players: playersResult.rows,
         });
     } catch (err) {
@@ -567,9 +588,14 @@ app.use((req, res) => {
 
 // ---------- STARTUP ----------
 
-// Test DB connection once on startup
+// Test DB connection once on startup, then pick up games interrupted by a restart
 testConnection()
-    .then(() => console.log('[db] PostgreSQL connection OK'))
+    .then(() => {
+        console.log('[db] PostgreSQL connection OK');
+        return restoreActiveGames(io)
+            .then((count) => console.log(`[startup] Restored ${count} in-progress game(s)`))
+            .catch((err) => console.error('[startup] Failed to restore games', err));
+    })
     .catch((err) => console.error('[db] PostgreSQL connection FAILED', err));
 
 // Bind ViteExpress to the existing httpServer
@@ -1,4 +1,5 @@
 import 'express-session';
+import { Session, SessionData } from 'express-session';
 
 declare module 'express-session' {
     interface SessionData {
@@ -9,3 +10,10 @@ declare module 'express-session' {
         };
     }
 }
+
+// Socket.io shares the express session (see io.engine.use in server.ts)
+declare module 'http' {
+    interface IncomingMessage {
+        session: Session & Partial<SessionData>;
+    }
+}
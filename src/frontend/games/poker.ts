@@ -7,6 +7,15 @@ interface Card {
     suit: 'h' | 'd' | 'c' | 's';
 }
 
+// What the acting player may do, as sent with game:turn:started
+interface LegalActions {
+    canCheck: boolean;
+    callAmount: number;
+    minRaise: number | null; // Street totals
+    maxRaise: number | null;
+    allIn: number | null;
+}
+
 // Game state interface
 interface PokerGameState {
     pot: number;
@@ -17,9 +26,12 @@ interface PokerGameState {
     isMyTurn: boolean;
     holeCards: Card[] | null;
     boardCards: Card[];
+    secondBoardCards: Card[] | null; // Only when the hand is run twice
     turnTimeRemaining: number;
     currentStreet: string;
     handNumber: number;
+    isMyDraw: boolean; // Draw games: our turn to swap cards
+    discardIndexes: number[]; // Positions of the cards marked to throw away in the draw
 }
 
 // Initialize game state
@@ -32,9 +44,12 @@ const pokerGameState: PokerGameState = {
     isMyTurn: false,
     holeCards: null,
     boardCards: [],
+    secondBoardCards: null,
     turnTimeRemaining: 0,
     currentStreet: 'preflop',
-    handNumber: 0
+    handNumber: 0,
+    isMyDraw: false,
+    discardIndexes: []
 };
 
 // Socket instance
@@ -58,18 +73,10 @@ export function initializePokerSocket(): any {
     pokerSocket.on('connect', () => {
         console.log('[Poker] Socket connected:', pokerSocket.id);
 
-        // Identify user to server FIRST
-        if (pokerGameState.userId) {
-            console.log('[Poker] Identifying user:', pokerGameState.userId);
-            pokerSocket.emit('auth:identify', { userId: pokerGameState.userId });
-
-            // Wait a bit for identification to complete, then join room
-            setTimeout(() => {
-                if (pokerGameState.gameId) {
-                    console.log('[Poker] Joining/Rejoining room:', pokerGameState.gameId);
-                    pokerSocket.emit('room:join', { roomId: pokerGameState.gameId });
-                }
-            }, 100);
+        // The server identifies the user from the session cookie
+        if (pokerGameState.gameId) {
+            console.log('[Poker] Joining/Rejoining room:', pokerGameState.gameId);
+            pokerSocket.emit('room:join', { roomId: pokerGameState.gameId });
         }
     });
 
@@ -106,14 +113,7 @@ export function joinPokerRoom(gameId: number): void {
     } else {
         // Wait for connection, then join
         socket.once('connect', () => {
-            // Identify first
-            if (pokerGameState.userId) {
-                socket.emit('auth:identify', { userId: pokerGameState.userId });
-            }
-            // Then join room after a short delay
-            setTimeout(() => {
-                socket.emit('room:join', { roomId: gameId });
-            }, 100);
+            socket.emit('room:join', { roomId: gameId });
         });
     }
 }
@@ -177,14 +177,34 @@ function updateHoleCards(cards: Card[]): void {
     const cardContainer = currentUserElement.querySelector('.flex.gap-2');
     if (!cardContainer) return;
 
-    // Update card images
-    const cardImages = cardContainer.querySelectorAll('img');
-    if (cardImages.length >= 2 && cards.length >= 2) {
-        cardImages[0].src = `/cards/${getCardImageName(cards[0])}`;
-        cardImages[0].alt = `${cards[0].rank} of ${cards[0].suit}`;
-        cardImages[1].src = `/cards/${getCardImageName(cards[1])}`;
-        cardImages[1].alt = `${cards[1].rank} of ${cards[1].suit}`;
+    // Two cards in Hold'em, four in Omaha, three to seven in stud: add or remove images to match the hand dealt
+    let cardImages = Array.from(cardContainer.querySelectorAll('img'));
+    if (cardImages.length === 0 || cards.length === 0) return;
+
+    while (cardImages.length < cards.length) {
+        const image = cardImages[0].cloneNode() as HTMLImageElement;
+        cardContainer.appendChild(image);
+        cardImages.push(image);
     }
+    cardImages.slice(cards.length).forEach(image => image.remove());
+    cardImages = cardImages.slice(0, cards.length);
+
+    cards.forEach((card, i) => {
+        cardImages[i].src = `/cards/${getCardImageName(card)}`;
+        cardImages[i].alt = `${card.rank} of ${card.suit}`;
+    });
+}
+
+/**
+ * Log what every other stud player shows
+ */
+function logUpCards(upCards: Array<{ userId: number; username: string; cards: Card[] }>): void {
+    upCards
+        .filter(player => player.userId !== pokerGameState.userId)
+        .forEach(player => {
+            const cards = player.cards.map(card => `${card.rank}${card.suit}`).join(' ');
+            addGameLog(`${player.username} shows ${cards}`);
+        });
 }
 
 /**
@@ -210,6 +230,77 @@ function updateCommunityCards(cards: Card[]): void {
     });
 }
 
+/**
+ * Show the second board of a hand run twice, or hide it
+ */
+function updateSecondBoard(cards: Card[] | null): void {
+    pokerGameState.secondBoardCards = cards;
+
+    const container = document.getElementById('secondBoardCards');
+    if (!container) return;
+
+    container.classList.toggle('hidden', !cards);
+    container.innerHTML = '';
+
+    (cards || []).forEach(card => {
+        const img = document.createElement('img');
+        img.src = `/cards/${getCardImageName(card)}`;
+        img.alt = `${card.rank} of ${card.suit}`;
+        img.className = 'w-16 h-24 rounded-lg shadow-2xl';
+        img.style.filter = 'drop-shadow(0 8px 16px rgba(0,0,0,0.4))';
+        container.appendChild(img);
+    });
+}
+
+/**
+ * Show or hide the run-it-twice question
+ */
+function showRunItTwicePanel(visible: boolean): void {
+    document.getElementById('runItTwicePanel')?.classList.toggle('hidden', !visible);
+}
+
+/**
+ * Show or hide the choice to show cards that were mucked or won without a showdown
+ */
+function showShowCardsPanel(visible: boolean): void {
+    document.getElementById('showCardsPanel')?.classList.toggle('hidden', !visible);
+}
+
+/**
+ * Show or hide the draw choice, starting over with no cards marked to throw away
+ */
+function showDrawPanel(visible: boolean): void {
+    pokerGameState.isMyDraw = visible;
+    pokerGameState.discardIndexes = [];
+    document.getElementById('drawPanel')?.classList.toggle('hidden', !visible);
+    document.querySelectorAll(`[data-player="${pokerGameState.userId}"] .flex.gap-2 img`).forEach(image => {
+        image.classList.remove('-translate-y-4', 'opacity-60');
+        image.classList.toggle('cursor-pointer', visible);
+    });
+    updateDrawButton();
+}
+
+/**
+ * Mark one of our cards to throw away in the draw, or keep it again
+ */
+function toggleDiscard(index: number, image: Element): void {
+    const isMarked = !pokerGameState.discardIndexes.includes(index);
+    pokerGameState.discardIndexes = isMarked
+        ? [...pokerGameState.discardIndexes, index]
+        : pokerGameState.discardIndexes.filter(i => i !== index);
+    image.classList.toggle('-translate-y-4', isMarked);
+    image.classList.toggle('opacity-60', isMarked);
+    updateDrawButton();
+}
+
+function updateDrawButton(): void {
+    const drawBtn = document.getElementById('drawBtn');
+    if (drawBtn) {
+        const count = pokerGameState.discardIndexes.length;
+        drawBtn.textContent = count > 0 ? `Draw ${count}` : 'Stand Pat';
+    }
+}
+
 /**
  * Update turn timer display
  */
@@ -236,7 +327,7 @@ function updateTurnTimer(timeRemaining: number): void {
 /**
  * Enable/disable action buttons based on turn
  */
-function updateActionButtons(isMyTurn: boolean, currentBet: number = 0): void {
+function updateActionButtons(isMyTurn: boolean, currentBet: number = 0, legal: LegalActions | null = null): void {
     pokerGameState.isMyTurn = isMyTurn;
     pokerGameState.currentBet = currentBet;
 
@@ -247,25 +338,49 @@ function updateActionButtons(isMyTurn: boolean, currentBet: number = 0): void {
     const allinBtn = document.getElementById('allinBtn') as HTMLButtonElement;
     const betSlider = document.getElementById('betSlider') as HTMLInputElement;
 
-    const buttons = [foldBtn, checkBtn, callBtn, raiseBtn, allinBtn];
+    const allowed: Array<[HTMLButtonElement, boolean]> = [
+        [foldBtn, true],
+        [checkBtn, !!legal?.canCheck],
+        [callBtn, !!legal && legal.callAmount > 0],
+        [raiseBtn, legal?.minRaise != null],
+        [allinBtn, legal?.allIn != null],
+    ];
 
-    buttons.forEach(btn => {
+    allowed.forEach(([btn, isLegal]) => {
         if (btn) {
-            btn.disabled = !isMyTurn;
-            btn.style.opacity = isMyTurn ? '1' : '0.5';
-            btn.style.cursor = isMyTurn ? 'pointer' : 'not-allowed';
+            const enabled = isMyTurn && isLegal;
+            btn.disabled = !enabled;
+            btn.style.opacity = enabled ? '1' : '0.5';
+            btn.style.cursor = enabled ? 'pointer' : 'not-allowed';
         }
     });
 
+    if (raiseBtn) {
+        raiseBtn.textContent = currentBet > 0 ? 'RAISE' : 'BET';
+    }
+
+    // The slider only offers amounts the betting structure allows
     if (betSlider) {
-        betSlider.disabled = !isMyTurn;
-        betSlider.style.opacity = isMyTurn ? '1' : '0.5';
+        const enabled = isMyTurn && legal?.minRaise != null;
+        betSlider.disabled = !enabled;
+        betSlider.style.opacity = enabled ? '1' : '0.5';
+
+        if (legal && legal.minRaise !== null && legal.maxRaise !== null) {
+            betSlider.min = String(legal.minRaise);
+            betSlider.max = String(legal.maxRaise);
+            betSlider.step = '1';
+            betSlider.value = String(legal.minRaise);
+
+            const raiseAmount = document.getElementById('raiseAmount');
+            if (raiseAmount) {
+                raiseAmount.textContent = `$${legal.minRaise}`;
+            }
+        }
     }
 
     // Update call button text with amount
-    if (callBtn && currentBet > 0) {
-        const callAmount = currentBet;
-        callBtn.textContent = `Call $${callAmount}`;
+    if (callBtn) {
+        callBtn.textContent = legal && legal.callAmount > 0 ? `Call $${legal.callAmount}` : 'Call';
     }
 }
 
@@ -314,15 +429,34 @@ export function registerPokerEventListeners(socket: any): void {
     socket.on('game:hand:started', (data: any) => {
         console.log('[Poker] Hand started:', data);
         pokerGameState.handNumber = data.handNumber;
-        pokerGameState.currentStreet = 'preflop';
+        pokerGameState.currentStreet = data.street || 'preflop';
         addGameLog(`Hand #${data.handNumber} started`);
 
+        const antes: Array<{ userId: number; amount: number }> = data.antes || [];
+        if (antes.length > 0) {
+            const anteTotal = antes.reduce((total, ante) => total + ante.amount, 0);
+            addGameLog(data.anteType === 'big_blind' ? `Big blind ante ${anteTotal}` : `Antes ${anteTotal}`);
+        }
+
+        // Stud: the upcards on third street and who they made bring it in
+        if (data.upCards) {
+            logUpCards(data.upCards);
+        }
+        if (data.bringIn) {
+            const bringIn = data.upCards?.find((p: any) => p.userId === data.bringIn.userId);
+            addGameLog(`${bringIn?.username ?? 'Lowest card'} brings in for ${data.bringIn.amount}`);
+        }
+
         if (data.pot !== undefined) {
             updatePotDisplay(data.pot);
         }
 
         // Clear board cards for new hand
         updateCommunityCards([]);
+        updateSecondBoard(null);
+        showRunItTwicePanel(false);
+        showShowCardsPanel(false);
+        showDrawPanel(false);
     });
 
     // Cards dealt (private to each player)
@@ -334,28 +468,116 @@ export function registerPokerEventListeners(socket: any): void {
         }
     });
 
+    // Full table state when (re)joining a game in progress
+    socket.on('game:state:sync', (data: any) => {
+        console.log('[Poker] State sync:', data);
+        pokerGameState.handNumber = data.handNumber;
+        pokerGameState.currentStreet = data.street;
+        updatePotDisplay(data.pot);
+        updateCommunityCards(data.boardCards || []);
+        updateSecondBoard(data.secondBoardCards || null);
+
+        if (data.holeCards && Array.isArray(data.holeCards)) {
+            updateHoleCards(data.holeCards);
+        }
+
+        if (data.runOut) {
+            const isInHand = data.runOut.players.some((p: any) => p.userId === pokerGameState.userId);
+            showRunItTwicePanel(data.runOut.isRunItTwiceOpen && isInHand);
+        }
+
+        const isMyTurn = !!data.turn && data.turn.userId === pokerGameState.userId;
+        updateActionButtons(isMyTurn, data.currentBet, isMyTurn ? data.turn.legalActions : null);
+        showDrawPanel(!!data.draw && data.draw.userId === pokerGameState.userId);
+        addGameLog(`Rejoined hand #${data.handNumber}`);
+    });
+
     // Street advanced (flop, turn, river)
     socket.on('game:street:advanced', (data: any) => {
         console.log('[Poker] Street advanced:', data);
         pokerGameState.currentStreet = data.street;
 
-        const streetName = data.street.toUpperCase();
+        const streetName = data.street.replace('_', ' ').toUpperCase();
         addGameLog(`${streetName} dealt`);
 
+        if (data.upCards) {
+            logUpCards(data.upCards);
+        }
+
         if (data.boardCards && Array.isArray(data.boardCards)) {
             updateCommunityCards(data.boardCards);
         }
+        updateSecondBoard(data.secondBoardCards || null);
 
         if (data.pot !== undefined) {
             updatePotDisplay(data.pot);
         }
     });
 
+    // Draw games: after a betting round the players draw one at a time
+    socket.on('game:draw:started', (data: any) => {
+        console.log('[Poker] Draw started:', data);
+        updateActionButtons(false, 0);
+        addGameLog('The draw');
+    });
+
+    socket.on('game:draw:turn', (data: any) => {
+        console.log('[Poker] Draw turn:', data);
+        const isMyDraw = data.userId === pokerGameState.userId;
+        showDrawPanel(isMyDraw);
+        updateTurnTimer(data.timeRemaining);
+        if (isMyDraw) {
+            addGameLog(`Your draw: throw away up to ${data.maxDiscards} cards`);
+        }
+    });
+
+    // Our new cards come in game:cards:dealt, the table only learns how many
+    socket.on('game:draw:performed', (data: any) => {
+        console.log('[Poker] Draw performed:', data);
+        if (data.userId === pokerGameState.userId) {
+            showDrawPanel(false);
+        }
+        addGameLog(data.cardCount > 0 ? `${data.username} draws ${data.cardCount}` : `${data.username} stands pat`);
+    });
+
+    // Everyone is all-in, the board is dealt without betting
+    socket.on('game:runout:started', (data: any) => {
+        console.log('[Poker] Run-out started:', data);
+        updateActionButtons(false, 0);
+        addGameLog('All-in! Running out the board');
+
+        data.players.forEach((player: any) => {
+            if (player.holeCards && player.userId !== pokerGameState.userId) {
+                const cards = player.holeCards.map((card: Card) => `${card.rank}${card.suit}`).join(' ');
+                addGameLog(`${player.username} shows ${cards}`);
+            }
+        });
+    });
+
+    socket.on('game:runittwice:offered', (data: any) => {
+        console.log('[Poker] Run it twice offered:', data);
+        if (data.userIds.includes(pokerGameState.userId)) {
+            showRunItTwicePanel(true);
+            updateTurnTimer(data.timeoutSeconds);
+        }
+    });
+
+    socket.on('game:runittwice:voted', (data: any) => {
+        console.log('[Poker] Run it twice vote:', data);
+        addGameLog(`${data.username} ${data.agree ? 'wants' : "doesn't want"} to run it twice`);
+    });
+
+    socket.on('game:runittwice:decided', (data: any) => {
+        console.log('[Poker] Run it twice decided:', data);
+        showRunItTwicePanel(false);
+        addGameLog(data.runTwice ? 'Running it twice' : 'Running it once');
+    });
+
     // Turn started
     socket.on('game:turn:started', (data: any) => {
         console.log('[Poker] Turn started:', data);
         const isMyTurn = data.userId === pokerGameState.userId;
-        updateActionButtons(isMyTurn, data.currentBet || pokerGameState.currentBet);
+        updateActionButtons(isMyTurn, data.currentBet || pokerGameState.currentBet, isMyTurn ? data.legalActions : null);
 
         if (data.timeRemaining !== undefined) {
             updateTurnTimer(data.timeRemaining);
@@ -406,6 +628,35 @@ export function registerPokerEventListeners(socket: any): void {
         }
     });
 
+    // Hands turned over at showdown, in showing order
+    socket.on('game:showdown', (data: any) => {
+        console.log('[Poker] Showdown:', data);
+        data.hands.forEach((hand: any) => {
+            const cards = hand.holeCards.map((card: Card) => `${card.rank}${card.suit}`).join(' ');
+            const lowText = hand.lowHandRank ? ` and ${hand.lowHandRank}` : '';
+            addGameLog(`${hand.username} shows ${cards} (${hand.handRank}${lowText})`);
+        });
+        data.mucked.forEach((player: any) => addGameLog(`${player.username} mucks`));
+    });
+
+    // We mucked or won without a showdown and may still show
+    socket.on('game:show:offered', (data: any) => {
+        console.log('[Poker] Show offered:', data);
+        showShowCardsPanel(true);
+    });
+
+    socket.on('game:cards:shown', (data: any) => {
+        console.log('[Poker] Cards shown:', data);
+        const cards = data.holeCards.map((card: Card) => `${card.rank}${card.suit}`).join(' ');
+        const lowText = data.lowHandRank ? ` and ${data.lowHandRank}` : '';
+        addGameLog(`${data.username} shows ${cards}${data.handRank ? ` (${data.handRank}${lowText})` : ''}`);
+    });
+
+    socket.on('game:cards:mucked', (data: any) => {
+        console.log('[Poker] Cards mucked:', data);
+        addGameLog(`${data.username} mucks`);
+    });
+
     // Winner determined
     socket.on('game:winner:determined', (data: any) => {
         console.log('[Poker] Winner determined:', data);
@@ -416,7 +667,17 @@ export function registerPokerEventListeners(socket: any): void {
                 const amountWon = winner.amountWon || 0;
                 const handRank = winner.handRank || 'best hand';
 
-                addGameLog(`${username} wins $${amountWon} with ${handRank}`);
+                // Hi/lo winners are logged with what they took from each half
+                if (winner.halves) {
+                    const { hi, lo } = winner.halves;
+                    const parts = [
+                        hi ? `$${hi.amountWon} high with ${hi.handRank}` : null,
+                        lo ? `$${lo.amountWon} low with ${lo.handRank}` : null,
+                    ].filter(Boolean);
+                    addGameLog(`${username} wins ${parts.join(' and ')}${hi && lo ? ' (scoops)' : ''}`);
+                } else {
+                    addGameLog(`${username} wins $${amountWon} with ${handRank}`);
+                }
 
                 if (winner.userId && winner.stack !== undefined) {
                     updatePlayerStack(winner.userId, winner.stack);
@@ -445,6 +706,29 @@ export function registerPokerEventListeners(socket: any): void {
         }
     });
 
+    // Tournament blind level raised
+    socket.on('game:blinds:raised', (data: any) => {
+        console.log('[Poker] Blinds raised:', data);
+        const anteText = data.ante > 0 ? ` (ante ${data.ante})` : '';
+        addGameLog(`Level ${data.level}: blinds now ${data.smallBlind}/${data.bigBlind}${anteText}`);
+    });
+
+    // Cash game chip movements and seats
+    socket.on('game:chips:updated', (data: any) => {
+        console.log('[Poker] Chips updated:', data);
+        addGameLog(`${data.username}: ${data.entryType.replace('_', ' ')} ${data.amount} (stack ${data.stack})`);
+    });
+
+    socket.on('game:seat:updated', (data: any) => {
+        console.log('[Poker] Seat updated:', data);
+        addGameLog(`${data.username} ${data.isSittingOut ? 'is sitting out' : 'is back'}`);
+    });
+
+    socket.on('game:waiting', (data: any) => {
+        console.log('[Poker] Waiting:', data);
+        addGameLog(data.message);
+    });
+
     // Game error
     socket.on('game:error', (data: any) => {
         console.error('[Poker] Game error:', data);
@@ -534,6 +818,45 @@ export function setupPokerActionButtons(socket: any): void {
         });
     }
 
+    // Show or muck after the hand
+    document.getElementById('showCardsBtn')?.addEventListener('click', () => {
+        socket.emit('game:action:show');
+        showShowCardsPanel(false);
+    });
+
+    document.getElementById('muckCardsBtn')?.addEventListener('click', () => {
+        socket.emit('game:action:muck');
+        showShowCardsPanel(false);
+    });
+
+    // Answers to the run-it-twice offer
+    document.getElementById('runTwiceYesBtn')?.addEventListener('click', () => {
+        socket.emit('game:action:runittwice', { agree: true });
+        showRunItTwicePanel(false);
+    });
+
+    document.getElementById('runTwiceNoBtn')?.addEventListener('click', () => {
+        socket.emit('game:action:runittwice', { agree: false });
+        showRunItTwicePanel(false);
+    });
+
+    // Draw: click our cards to mark the ones to throw away; the images change with the hand, so listen on their row
+    const myCards = document.querySelector(`[data-player="${pokerGameState.userId}"] .flex.gap-2`);
+    myCards?.addEventListener('click', event => {
+        const images = Array.from(myCards.querySelectorAll('img'));
+        const index = images.indexOf(event.target as HTMLImageElement);
+        if (pokerGameState.isMyDraw && index >= 0) {
+            toggleDiscard(index, images[index]);
+        }
+    });
+
+    document.getElementById('drawBtn')?.addEventListener('click', () => {
+        const discards = pokerGameState.discardIndexes.map(i => pokerGameState.holeCards![i]);
+        socket.emit('game:action:draw', { discards });
+        addGameLog(discards.length > 0 ? `You threw away ${discards.length}` : 'You stood pat');
+        showDrawPanel(false);
+    });
+
     // Update raise amount display when slider changes
     if (betSlider) {
         const raiseAmountDisplay = document.getElementById('raiseAmount');